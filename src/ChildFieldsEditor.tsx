@@ -0,0 +1,237 @@
+import { FIELD_TYPES } from "./fieldTypes";
+import {
+  CHOICE_FIELD_TYPES,
+  getDefaultWidget,
+  getUniqueFieldId,
+  type FormField,
+  type FormFieldType,
+} from "./flow-core";
+
+interface ChildFieldsEditorProps {
+  fields: FormField[];
+  onChange: (fields: FormField[]) => void;
+  // Field types offered in the type dropdown
+  allowedTypes: FormFieldType[];
+  // Used for the add button and empty state, e.g. "column"
+  itemLabel: string;
+  // IDs used elsewhere that new children must not take
+  reservedIds?: string[];
+}
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 8px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  fontSize: "12px",
+  boxSizing: "border-box" as const,
+};
+
+const smallButtonStyle = {
+  padding: "4px 8px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  backgroundColor: "#ffffff",
+  cursor: "pointer",
+  fontSize: "12px",
+};
+
+// camelCase ID from a title, made unique among `taken`
+const childIdFromTitle = (title: string, taken: string[]): string => {
+  const base =
+    title
+      .replace(/[^a-zA-Z0-9\s]/g, "")
+      .trim()
+      .split(/\s+/)
+      .map((word, index) =>
+        index === 0
+          ? word.toLowerCase()
+          : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+      )
+      .join("")
+      .replace(/^\d+/, "") || "field";
+
+  return getUniqueFieldId(base, taken);
+};
+
+/**
+ * Compact editor for fields nested inside another field (e.g. repeater
+ * columns): title, ID, type, required flag and choice options.
+ */
+export const ChildFieldsEditor = ({
+  fields,
+  onChange,
+  allowedTypes,
+  itemLabel,
+  reservedIds = [],
+}: ChildFieldsEditorProps) => {
+  const updateChild = (index: number, updates: Partial<FormField>) => {
+    const child = fields[index];
+
+    if (updates.type && updates.type !== child.type) {
+      updates.defaultValue = undefined;
+      updates.widget = getDefaultWidget(updates.type);
+      updates.options = CHOICE_FIELD_TYPES.includes(updates.type)
+        ? child.options || ["Option 1", "Option 2"]
+        : undefined;
+    }
+
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...updates } : f)));
+  };
+
+  const addChild = () => {
+    const title = `${itemLabel.charAt(0).toUpperCase() + itemLabel.slice(1)} ${
+      fields.length + 1
+    }`;
+    const newChild: FormField = {
+      id: childIdFromTitle(title, [...reservedIds, ...fields.map((f) => f.id)]),
+      type: "text",
+      title,
+      required: false,
+      widget: getDefaultWidget("text"),
+    };
+    onChange([...fields, newChild]);
+  };
+
+  const moveChild = (from: number, to: number) => {
+    if (to < 0 || to >= fields.length) return;
+    const reordered = [...fields];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+      {fields.length === 0 && (
+        <div style={{ fontSize: "12px", color: "#6b7280" }}>
+          No {itemLabel}s yet
+        </div>
+      )}
+
+      {fields.map((child, index) => (
+        <div
+          key={index}
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "6px",
+            padding: "8px",
+            border: "1px solid #e5e7eb",
+            borderRadius: "6px",
+            backgroundColor: "#f9fafb",
+          }}
+        >
+          <div style={{ display: "flex", gap: "6px" }}>
+            <input
+              type="text"
+              value={child.title}
+              onChange={(e) => updateChild(index, { title: e.target.value })}
+              placeholder="Title"
+              style={inputStyle}
+            />
+            <select
+              value={child.type}
+              onChange={(e) =>
+                updateChild(index, {
+                  type: e.target.value as FormFieldType,
+                })
+              }
+              style={{ ...inputStyle, width: "auto" }}
+            >
+              {FIELD_TYPES.filter((fieldType) =>
+                allowedTypes.includes(fieldType.type)
+              ).map((fieldType) => (
+                <option key={fieldType.type} value={fieldType.type}>
+                  {fieldType.icon} {fieldType.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ display: "flex", gap: "6px", alignItems: "center" }}>
+            <input
+              type="text"
+              value={child.id}
+              onChange={(e) => updateChild(index, { id: e.target.value })}
+              placeholder="ID"
+              style={{ ...inputStyle, fontFamily: "monospace" }}
+            />
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "4px",
+                fontSize: "12px",
+                whiteSpace: "nowrap",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={child.required}
+                onChange={(e) =>
+                  updateChild(index, { required: e.target.checked })
+                }
+              />
+              Required
+            </label>
+          </div>
+
+          {CHOICE_FIELD_TYPES.includes(child.type) && (
+            <textarea
+              value={child.options?.join("\n") || ""}
+              onChange={(e) =>
+                updateChild(index, {
+                  options: e.target.value
+                    .split("\n")
+                    .filter((opt) => opt.trim()),
+                })
+              }
+              rows={3}
+              placeholder="One option per line"
+              style={{ ...inputStyle, resize: "vertical" }}
+            />
+          )}
+
+          <div style={{ display: "flex", gap: "6px" }}>
+            <button
+              type="button"
+              onClick={() => moveChild(index, index - 1)}
+              disabled={index === 0}
+              style={smallButtonStyle}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => moveChild(index, index + 1)}
+              disabled={index === fields.length - 1}
+              style={smallButtonStyle}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(fields.filter((_, i) => i !== index))}
+              style={{
+                ...smallButtonStyle,
+                marginLeft: "auto",
+                color: "#dc2626",
+              }}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addChild}
+        style={{ ...smallButtonStyle, alignSelf: "flex-start" }}
+      >
+        + Add {itemLabel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,418 @@
+import {
+  CHOICE_FIELD_TYPES,
+  CONDITION_OPERATORS,
+  DATE_FIELD_TYPES,
+  NUMERIC_FIELD_TYPES,
+  getConditionOperators,
+  isConditionGroup,
+  type ConditionGroup,
+  type ConditionOperator,
+  type FieldCondition,
+  type FormField,
+} from "./flow-core";
+
+// Fields a condition may read, listed under their page's name
+interface ConditionSource {
+  label: string;
+  fields: FormField[];
+}
+
+interface ConditionEditorProps {
+  // null when the field is always shown
+  value: ConditionGroup | null;
+  onChange: (value: ConditionGroup | undefined) => void;
+  sources: ConditionSource[];
+}
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 8px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  fontSize: "12px",
+  boxSizing: "border-box" as const,
+};
+
+const smallButtonStyle = {
+  padding: "4px 8px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  backgroundColor: "#ffffff",
+  cursor: "pointer",
+  fontSize: "12px",
+};
+
+// Groups nest this deep at most, which covers "A and (B or C)" style logic
+const MAX_GROUP_DEPTH = 2;
+
+const newCondition = (sources: ConditionSource[]): FieldCondition => {
+  // Default to the closest page's first field
+  const source = sources[sources.length - 1]?.fields[0];
+  return {
+    fieldId: source?.id || "",
+    operator: source ? getConditionOperators(source)[0] : "equals",
+    value: "",
+  };
+};
+
+// Keep the value in the shape the operator expects ("in" takes a list)
+const convertValue = (
+  value: FieldCondition["value"],
+  operator: ConditionOperator
+): FieldCondition["value"] => {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return operator === "in" ? values : values[0] || "";
+};
+
+const inputTypeFor = (field: FormField | undefined): string => {
+  if (!field) return "text";
+  if (NUMERIC_FIELD_TYPES.includes(field.type)) return "number";
+  if (field.type === "datetime") return "datetime-local";
+  if (DATE_FIELD_TYPES.includes(field.type)) return field.type;
+  return "text";
+};
+
+const ConditionRow = ({
+  condition,
+  onChange,
+  onRemove,
+  sources,
+}: {
+  condition: FieldCondition;
+  onChange: (condition: FieldCondition) => void;
+  onRemove: () => void;
+  sources: ConditionSource[];
+}) => {
+  const sourceFields = sources.flatMap((group) => group.fields);
+  const source = sourceFields.find((f) => f.id === condition.fieldId);
+  const operators = source ? getConditionOperators(source) : [];
+  const operator = CONDITION_OPERATORS.find(
+    (op) => op.value === condition.operator
+  );
+  const values = Array.isArray(condition.value)
+    ? condition.value
+    : [condition.value ?? ""];
+  const options =
+    source && CHOICE_FIELD_TYPES.includes(source.type)
+      ? source.options || []
+      : null;
+
+  const changeField = (fieldId: string) => {
+    const field = sourceFields.find((f) => f.id === fieldId);
+    const allowed = field ? getConditionOperators(field) : [];
+    const nextOperator = allowed.includes(condition.operator)
+      ? condition.operator
+      : allowed[0] || "equals";
+    onChange({
+      fieldId,
+      operator: nextOperator,
+      value: convertValue("", nextOperator),
+    });
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+      <div style={{ display: "flex", gap: "4px" }}>
+        <select
+          value={condition.fieldId}
+          onChange={(e) => changeField(e.target.value)}
+          style={inputStyle}
+        >
+          {!source && (
+            <option value={condition.fieldId}>
+              {condition.fieldId || "Pick a field"} (not available)
+            </option>
+          )}
+          {sources.map((group, index) => (
+            <optgroup key={index} label={group.label}>
+              {group.fields.map((field) => (
+                <option key={field.id} value={field.id}>
+                  {field.title}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button type="button" onClick={onRemove} style={smallButtonStyle}>
+          ✕
+        </button>
+      </div>
+
+      <select
+        value={condition.operator}
+        onChange={(e) => {
+          const nextOperator = e.target.value as ConditionOperator;
+          onChange({
+            ...condition,
+            operator: nextOperator,
+            value: convertValue(condition.value, nextOperator),
+          });
+        }}
+        style={inputStyle}
+      >
+        {CONDITION_OPERATORS.filter(
+          (op) =>
+            operators.includes(op.value) || op.value === condition.operator
+        ).map((op) => (
+          <option key={op.value} value={op.value}>
+            {op.label}
+          </option>
+        ))}
+      </select>
+
+      {operator?.takesValue &&
+        (options && condition.operator === "in" ? (
+          <div style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
+            {options.map((option) => (
+              <label
+                key={option}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "6px",
+                  fontSize: "12px",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={values.includes(option)}
+                  onChange={(e) =>
+                    onChange({
+                      ...condition,
+                      value: e.target.checked
+                        ? [...values.filter((v) => v), option]
+                        : values.filter((v) => v !== option),
+                    })
+                  }
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        ) : options ? (
+          <select
+            value={values[0] || ""}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            style={inputStyle}
+          >
+            <option value="">Choose an option...</option>
+            {values[0] && !options.includes(values[0]) && (
+              <option value={values[0]}>
+                {values[0]} (no longer an option)
+              </option>
+            )}
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        ) : condition.operator === "in" ? (
+          <textarea
+            value={values.join("\n")}
+            onChange={(e) =>
+              onChange({
+                ...condition,
+                value: e.target.value.split("\n").filter((v) => v.trim()),
+              })
+            }
+            rows={3}
+            placeholder="One value per line"
+            style={{ ...inputStyle, resize: "vertical" }}
+          />
+        ) : (
+          <input
+            type={inputTypeFor(source)}
+            value={values[0] || ""}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="Value"
+            style={inputStyle}
+          />
+        ))}
+    </div>
+  );
+};
+
+const GroupEditor = ({
+  group,
+  onChange,
+  onRemove,
+  sources,
+  depth,
+}: {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove: () => void;
+  sources: ConditionSource[];
+  depth: number;
+}) => {
+  const updateItem = (index: number, item: FieldCondition | ConditionGroup) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.map((c, i) => (i === index ? item : c)),
+    });
+
+  const removeItem = (index: number) => {
+    const conditions = group.conditions.filter((_, i) => i !== index);
+    if (conditions.length === 0) {
+      onRemove();
+    } else {
+      onChange({ ...group, conditions });
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: depth > 0 ? "8px" : 0,
+        border: depth > 0 ? "1px dashed #d1d5db" : "none",
+        borderRadius: "6px",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          fontSize: "12px",
+          color: "#374151",
+        }}
+      >
+        Show when
+        <select
+          value={group.combinator}
+          onChange={(e) =>
+            onChange({
+              ...group,
+              combinator: e.target.value as ConditionGroup["combinator"],
+            })
+          }
+          style={{ ...inputStyle, width: "auto" }}
+        >
+          <option value="and">all</option>
+          <option value="or">any</option>
+        </select>
+        of these match
+        {depth > 0 && (
+          <button
+            type="button"
+            onClick={onRemove}
+            style={{ ...smallButtonStyle, marginLeft: "auto" }}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((item, index) =>
+        isConditionGroup(item) ? (
+          <GroupEditor
+            key={index}
+            group={item}
+            onChange={(updated) => updateItem(index, updated)}
+            onRemove={() => removeItem(index)}
+            sources={sources}
+            depth={depth + 1}
+          />
+        ) : (
+          <div
+            key={index}
+            style={{
+              padding: "8px",
+              border: "1px solid #e5e7eb",
+              borderRadius: "6px",
+              backgroundColor: "#f9fafb",
+            }}
+          >
+            <ConditionRow
+              condition={item}
+              onChange={(updated) => updateItem(index, updated)}
+              onRemove={() => removeItem(index)}
+              sources={sources}
+            />
+          </div>
+        )
+      )}
+
+      <div style={{ display: "flex", gap: "6px" }}>
+        <button
+          type="button"
+          onClick={() =>
+            onChange({
+              ...group,
+              conditions: [...group.conditions, newCondition(sources)],
+            })
+          }
+          style={smallButtonStyle}
+        >
+          + Condition
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...group,
+                conditions: [
+                  ...group.conditions,
+                  {
+                    combinator: group.combinator === "and" ? "or" : "and",
+                    conditions: [newCondition(sources)],
+                  },
+                ],
+              })
+            }
+            style={smallButtonStyle}
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Editor for a field's visibility conditions: conditions joined with
+ * all/any, with nested groups for mixed logic. Removing the last condition
+ * makes the field always shown again.
+ */
+export const ConditionEditor = ({
+  value,
+  onChange,
+  sources,
+}: ConditionEditorProps) => {
+  if (!value) {
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <span style={{ fontSize: "12px", color: "#6b7280" }}>Always shown</span>
+        <button
+          type="button"
+          onClick={() =>
+            onChange({
+              combinator: "and",
+              conditions: [newCondition(sources)],
+            })
+          }
+          disabled={sources.every((group) => group.fields.length === 0)}
+          style={{ ...smallButtonStyle, marginLeft: "auto" }}
+        >
+          + Add condition
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <GroupEditor
+      group={value}
+      onChange={onChange}
+      onRemove={() => onChange(undefined)}
+      sources={sources}
+      depth={0}
+    />
+  );
+};
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { getIdentifierProblem } from "./flow-core";
+
+interface FieldIdInputProps {
+  fieldId: string;
+  // IDs of the other fields in the flow, which the new ID must not take
+  takenIds: string[];
+  onRename: (newId: string) => void;
+}
+
+/**
+ * Edits a field's ID. The new ID is applied on Enter or when the input loses
+ * focus, and only once it is a safe identifier no other field uses; Escape
+ * puts the current ID back. Render it with `key={fieldId}` so selecting
+ * another field starts over.
+ */
+export const FieldIdInput = ({
+  fieldId,
+  takenIds,
+  onRename,
+}: FieldIdInputProps) => {
+  const [draft, setDraft] = useState(fieldId);
+
+  const trimmed = draft.trim();
+  // An unsafe current ID is reported too, so imported IDs can be fixed here
+  const problem =
+    getIdentifierProblem(trimmed) ??
+    (trimmed !== fieldId && takenIds.includes(trimmed)
+      ? `ID "${trimmed}" is used by another field`
+      : null);
+
+  const apply = () => {
+    if (!problem && trimmed !== fieldId) onRename(trimmed);
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") apply();
+          if (e.key === "Escape") setDraft(fieldId);
+        }}
+        style={{
+          padding: "6px 8px",
+          border: `1px solid ${problem ? "#dc2626" : "#d1d5db"}`,
+          borderRadius: "4px",
+          fontSize: "12px",
+          fontFamily: "monospace",
+        }}
+      />
+      {problem ? (
+        <div style={{ fontSize: "11px", color: "#dc2626" }}>{problem}</div>
+      ) : (
+        <div style={{ fontSize: "11px", color: "#6b7280" }}>
+          Conditions, routes and formulas that read this field are updated
+        </div>
+      )}
+    </div>
+  );
+};
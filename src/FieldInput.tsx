@@ -0,0 +1,682 @@
+import { useState } from "react";
+import { SignaturePad } from "./SignaturePad";
+import {
+  generateFormData,
+  resolveDateValue,
+  type FieldErrors,
+  type FormField,
+  type StepAnswers,
+} from "./flow-core";
+
+const DATE_INPUT_TYPES: Partial<Record<FormField["type"], string>> = {
+  date: "date",
+  time: "time",
+  datetime: "datetime-local",
+};
+
+interface FieldInputProps {
+  field: FormField;
+  // For a group: the step's answers, read by child field ID
+  value: any;
+  // For a group: called with `{ [childId]: value }` for the child that changed
+  onChange: (value: unknown) => void;
+  // Called with a user-facing message when a file selection is rejected
+  onError?: (message: string) => void;
+  // Radio group name; defaults to the field ID (repeater cells pass their own
+  // so rows do not share one group)
+  name?: string;
+  // Hides fields inside a group whose condition is not met
+  isVisible?: (field: FormField) => boolean;
+  // For a group: errors to show under the fields inside it
+  errors?: FieldErrors;
+  // For a group: called when focus leaves one of the fields inside it
+  onFieldBlur?: (fieldId: string) => void;
+}
+
+// Check size and type limits, then describe the selected files
+const readFileSelection = (
+  field: FormField,
+  files: FileList
+): { value: unknown } | { error: string } => {
+  const fileArray = Array.from(files);
+
+  const maxSize = (field.maxFileSize || 10) * 1024 * 1024;
+  const oversizedFiles = fileArray.filter((f: File) => f.size > maxSize);
+  if (oversizedFiles.length > 0) {
+    return {
+      error: `❌ Files too large: ${oversizedFiles
+        .map((f) => f.name)
+        .join(", ")}`,
+    };
+  }
+
+  if (field.acceptedFileTypes && field.acceptedFileTypes.length > 0) {
+    const invalidFiles = fileArray.filter((f: File) => {
+      return !field.acceptedFileTypes!.some((acceptedType) => {
+        if (acceptedType.includes("*")) {
+          const baseType = acceptedType.split("/")[0];
+          return f.type.startsWith(baseType);
+        }
+        return f.type === acceptedType;
+      });
+    });
+
+    if (invalidFiles.length > 0) {
+      return {
+        error: `❌ Invalid file types: ${invalidFiles
+          .map((f) => f.name)
+          .join(", ")}`,
+      };
+    }
+  }
+
+  const describe = (f: File) => ({
+    name: f.name,
+    size: f.size,
+    type: f.type,
+    url: URL.createObjectURL(f),
+  });
+
+  return {
+    value: field.multiple ? fileArray.map(describe) : describe(fileArray[0]),
+  };
+};
+
+/**
+ * Input widget for a single answerable field. Shared by the designer
+ * preview and FormRunner so both render flows identically; labels and
+ * "title" fields are left to the caller.
+ */
+export const FieldInput = ({
+  field,
+  value,
+  onChange,
+  onError,
+  name = field.id,
+  isVisible,
+  errors,
+  onFieldBlur,
+}: FieldInputProps) => {
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const result = readFileSelection(field, files);
+    if ("error" in result) {
+      onError?.(result.error);
+      return;
+    }
+
+    onChange(result.value);
+    console.log(`📁 Files uploaded for ${field.id}:`, result.value);
+  };
+
+  return (
+    <>
+      {field.type === "text" && (
+        <input
+          type="text"
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          disabled={field.readOnly}
+          maxLength={field.maxLength}
+          style={{
+            padding: "8px 12px",
+            border: "1px solid #d1d5db",
+            borderRadius: "6px",
+            fontSize: "14px",
+          }}
+        />
+      )}
+
+      {field.type === "textarea" && (
+        <textarea
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          disabled={field.readOnly}
+          maxLength={field.maxLength}
+          rows={4}
+          style={{
+            width: "92%",
+            padding: "8px 12px",
+            border: "1px solid #d1d5db",
+            borderRadius: "6px",
+            fontSize: "14px",
+            resize: "vertical",
+            fontFamily: "inherit",
+          }}
+        />
+      )}
+
+      {(field.type === "number" || field.type === "integer") && (
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <input
+            type="number"
+            value={value ?? ""}
+            onChange={(e) =>
+              onChange(e.target.value === "" ? null : Number(e.target.value))
+            }
+            onBlur={() => {
+              // Round to the configured decimal places once the user is done
+              if (
+                field.type === "number" &&
+                field.precision !== undefined &&
+                typeof value === "number"
+              ) {
+                const rounded = Number(value.toFixed(field.precision));
+                if (rounded !== value) onChange(rounded);
+              }
+            }}
+            min={field.min}
+            max={field.max}
+            step={
+              field.step ??
+              (field.type === "integer"
+                ? 1
+                : field.precision !== undefined
+                ? Math.pow(10, -field.precision)
+                : "any")
+            }
+            placeholder={field.placeholder}
+            disabled={field.readOnly}
+            style={{
+              flex: 1,
+              padding: "8px 12px",
+              border: "1px solid #d1d5db",
+              borderRadius: "6px",
+              fontSize: "14px",
+            }}
+          />
+          {field.unit && (
+            <span style={{ fontSize: "14px", color: "#6b7280" }}>
+              {field.unit}
+            </span>
+          )}
+        </div>
+      )}
+
+      {DATE_INPUT_TYPES[field.type] && (
+        <input
+          type={DATE_INPUT_TYPES[field.type]}
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          min={
+            (field.earliest && resolveDateValue(field.type, field.earliest)) ||
+            undefined
+          }
+          max={
+            (field.latest && resolveDateValue(field.type, field.latest)) ||
+            undefined
+          }
+          disabled={field.readOnly}
+          style={{
+            padding: "8px 12px",
+            border: "1px solid #d1d5db",
+            borderRadius: "6px",
+            fontSize: "14px",
+          }}
+        />
+      )}
+
+      {field.type === "select" && (
+        <select
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={field.readOnly}
+          style={{
+            width: "100%",
+            padding: "8px 12px",
+            border: "1px solid #ccc",
+            borderRadius: "6px",
+            fontSize: "14px",
+          }}
+        >
+          <option value="">Choose an option...</option>
+          {field.options?.map((option, optIndex) => (
+            <option key={optIndex} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {field.type === "radio" && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+          }}
+        >
+          {field.options?.map((option, optIndex) => (
+            <label
+              key={optIndex}
+              style={{
+                display: "flex",
+                alignItems: "flex-start",
+                gap: "8px",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="radio"
+                name={name}
+                value={option}
+                checked={value === option}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={field.readOnly}
+                style={{ marginTop: "2px" }}
+              />
+              <span
+                style={{
+                  fontSize: "14px",
+                  whiteSpace: "pre-line",
+                  lineHeight: "1.4",
+                }}
+              >
+                {option}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {field.type === "checkbox" && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+          }}
+        >
+          {field.options?.map((option, optIndex) => {
+            const selectedValues = Array.isArray(value) ? value : [];
+            // Once the limit is reached only deselecting is possible
+            const limitReached =
+              field.maxSelections !== undefined &&
+              selectedValues.length >= field.maxSelections &&
+              !selectedValues.includes(option);
+            return (
+              <label
+                key={optIndex}
+                style={{
+                  display: "flex",
+                  alignItems: "flex-start",
+                  gap: "8px",
+                  cursor: "pointer",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedValues.includes(option)}
+                  onChange={(e) => {
+                    const currentValues = Array.isArray(value) ? value : [];
+                    const newValues = e.target.checked
+                      ? [...currentValues, option]
+                      : currentValues.filter((v) => v !== option);
+                    onChange(newValues);
+                  }}
+                  disabled={field.readOnly || limitReached}
+                  style={{ marginTop: "2px" }}
+                />
+                <span
+                  style={{
+                    fontSize: "14px",
+                    whiteSpace: "pre-line",
+                    lineHeight: "1.4",
+                  }}
+                >
+                  {option}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {field.type === "file" && (
+        <div>
+          <input
+            type="file"
+            onChange={(e) => handleFiles(e.target.files)}
+            accept={field.acceptedFileTypes?.join(",")}
+            multiple={field.multiple}
+            disabled={field.readOnly}
+            style={{
+              padding: "8px 12px",
+              border: "1px solid #d1d5db",
+              borderRadius: "6px",
+              fontSize: "14px",
+            }}
+          />
+          {field.maxFileSize && (
+            <div
+              style={{
+                fontSize: "12px",
+                color: "#6b7280",
+                marginTop: "4px",
+              }}
+            >
+              Max size: {field.maxFileSize}MB
+              {field.acceptedFileTypes &&
+                ` • Types: ${field.acceptedFileTypes.join(", ")}`}
+            </div>
+          )}
+          {value && (
+            <div
+              style={{
+                marginTop: "8px",
+                fontSize: "12px",
+                color: "#10b981",
+              }}
+            >
+              ✓ {Array.isArray(value) ? `${value.length} files` : "1 file"}{" "}
+              selected
+            </div>
+          )}
+        </div>
+      )}
+
+      {field.type === "signature" && (
+        <SignaturePad
+          value={typeof value === "string" ? value : ""}
+          onChange={onChange}
+          disabled={field.readOnly}
+        />
+      )}
+
+      {field.type === "repeater" && (
+        <RepeaterInput
+          field={field}
+          value={value}
+          onChange={onChange}
+          onError={onError}
+          name={name}
+        />
+      )}
+
+      {field.type === "group" && (
+        <GroupInput
+          field={field}
+          value={value}
+          onChange={onChange}
+          onError={onError}
+          isVisible={isVisible}
+          errors={errors}
+          onFieldBlur={onFieldBlur}
+        />
+      )}
+
+      {field.type === "calculated" && (
+        <div
+          style={{
+            padding: "8px 12px",
+            backgroundColor: "#f0fdf4",
+            border: "1px solid #bbf7d0",
+            borderRadius: "6px",
+            fontSize: "14px",
+            fontWeight: "500",
+            color: "#166534",
+          }}
+          title={field.formula}
+        >
+          {value === null || value === undefined || value === ""
+            ? "—"
+            : typeof value === "number" && field.precision !== undefined
+            ? value.toFixed(field.precision)
+            : String(value)}
+          {field.unit && typeof value === "number" && ` ${field.unit}`}
+        </div>
+      )}
+
+      {field.type === "readonly" && (
+        <div
+          style={{
+            padding: "8px 12px",
+            backgroundColor: "#f9fafb",
+            border: "1px solid #e5e7eb",
+            borderRadius: "6px",
+            fontSize: "14px",
+            color: "#374151",
+            whiteSpace: "pre-line",
+            lineHeight: "1.4",
+          }}
+        >
+          {value || field.placeholder || "Read-only content"}
+        </div>
+      )}
+    </>
+  );
+};
+
+const rowButtonStyle = (enabled: boolean) => ({
+  padding: "4px 10px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  backgroundColor: "#ffffff",
+  cursor: enabled ? "pointer" : "not-allowed",
+  opacity: enabled ? 1 : 0.5,
+  fontSize: "12px",
+});
+
+// Rows of column inputs with add/remove controls, kept within the row limits
+const RepeaterInput = ({
+  field,
+  value,
+  onChange,
+  onError,
+  name = field.id,
+}: FieldInputProps) => {
+  const rows: StepAnswers[] = Array.isArray(value) ? value : [];
+  const columns = (field.fields || []).filter((col) => col.type !== "title");
+  const canAdd =
+    !field.readOnly &&
+    (field.maxRows === undefined || rows.length < field.maxRows);
+  const canRemove = !field.readOnly && rows.length > (field.minRows || 0);
+
+  const updateCell = (rowIndex: number, columnId: string, cell: unknown) =>
+    onChange(
+      rows.map((row, index) =>
+        index === rowIndex ? { ...row, [columnId]: cell } : row
+      )
+    );
+
+  if (columns.length === 0) {
+    return (
+      <div style={{ fontSize: "12px", color: "#6b7280" }}>
+        No columns configured
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+      {rows.map((row, rowIndex) => (
+        <div
+          key={rowIndex}
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "flex-end",
+            gap: "8px",
+            padding: "8px",
+            border: "1px solid #e5e7eb",
+            borderRadius: "6px",
+            backgroundColor: "#f9fafb",
+          }}
+        >
+          <span style={{ fontSize: "12px", color: "#6b7280" }}>
+            #{rowIndex + 1}
+          </span>
+          {columns.map((column) => (
+            <div
+              key={column.id}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "4px",
+                flex: "1 1 140px",
+                fontSize: "12px",
+                fontWeight: "500",
+                color: "#374151",
+              }}
+            >
+              <span>
+                {column.title}
+                {column.required && <span style={{ color: "red" }}> *</span>}
+              </span>
+              <FieldInput
+                field={column}
+                value={row[column.id]}
+                onChange={(cell) => updateCell(rowIndex, column.id, cell)}
+                onError={onError}
+                name={`${name}.${rowIndex}.${column.id}`}
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== rowIndex))}
+            disabled={!canRemove}
+            title="Remove row"
+            style={rowButtonStyle(canRemove)}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div>
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...rows, generateFormData(field.fields || [])])
+          }
+          disabled={!canAdd}
+          style={rowButtonStyle(canAdd)}
+        >
+          + Add row
+        </button>
+        {field.maxRows !== undefined && (
+          <span
+            style={{ marginLeft: "8px", fontSize: "12px", color: "#6b7280" }}
+          >
+            {rows.length} / {field.maxRows}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Fields inside a group laid out in a grid, optionally collapsible
+const GroupInput = ({
+  field,
+  value,
+  onChange,
+  onError,
+  isVisible,
+  errors = {},
+  onFieldBlur,
+}: FieldInputProps) => {
+  const [collapsed, setCollapsed] = useState(
+    (field.collapsible && field.collapsed) || false
+  );
+  const answers: StepAnswers = value && typeof value === "object" ? value : {};
+  const children = (field.fields || []).filter(
+    (child) => !isVisible || isVisible(child)
+  );
+  // A collapsed group opens while a field inside it has an error
+  const hasErrors = children.some((child) => errors[child.id]?.length);
+
+  return (
+    <div
+      style={{
+        padding: "12px",
+        border: "1px solid #e5e7eb",
+        borderRadius: "8px",
+        backgroundColor: "#fcfcfd",
+      }}
+    >
+      {field.placeholder && (
+        <p style={{ fontSize: "13px", color: "#6b7280", margin: "0 0 8px 0" }}>
+          {field.placeholder}
+        </p>
+      )}
+
+      {field.collapsible && (
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          style={{
+            ...rowButtonStyle(true),
+            marginBottom: collapsed ? 0 : "12px",
+          }}
+        >
+          {collapsed
+            ? `▸ Show ${children.length} field${
+                children.length === 1 ? "" : "s"
+              }`
+            : "▾ Hide"}
+        </button>
+      )}
+
+      {(!collapsed || hasErrors) && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: `repeat(${Math.max(
+              1,
+              field.columns || 1
+            )}, minmax(0, 1fr))`,
+            gap: "16px",
+          }}
+        >
+          {children.map((child) => (
+            <div
+              key={child.id}
+              id={`field-${child.id}`}
+              onBlur={() => onFieldBlur?.(child.id)}
+              style={{ display: "flex", flexDirection: "column" }}
+            >
+              <label
+                style={{
+                  display: "block",
+                  fontSize: "14px",
+                  fontWeight: "500",
+                  color: "#374151",
+                  marginBottom: "6px",
+                }}
+              >
+                {child.title}
+                {child.required && <span style={{ color: "#ef4444" }}>*</span>}
+              </label>
+              <FieldInput
+                field={child}
+                value={answers[child.id]}
+                onChange={(childValue) => onChange({ [child.id]: childValue })}
+                onError={onError}
+              />
+              <FieldErrorList messages={errors[child.id]} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Error messages shown under a field. Exported for callers that lay out
+ * their own field labels (the designer preview, FormRunner).
+ */
+export const FieldErrorList = ({ messages }: { messages?: string[] }) =>
+  messages && messages.length > 0 ? (
+    <div role="alert" style={{ marginTop: "4px" }}>
+      {messages.map((message, index) => (
+        <div key={index} style={{ fontSize: "12px", color: "#dc2626" }}>
+          {message}
+        </div>
+      ))}
+    </div>
+  ) : null;
@@ -0,0 +1,526 @@
+import { useId, useMemo, useRef, useState, type PointerEvent } from "react";
+import {
+  buildNavigationGraph,
+  describeNavigationTarget,
+  flattenFields,
+  getDeadEndStepIds,
+  getReachableStepIds,
+  isNavigationKeyword,
+  type NavigationEdge,
+  type Step,
+} from "./flow-core";
+
+interface FlowGraphProps {
+  steps: Step[];
+  currentStepId?: string;
+  onSelectStep: (stepIndex: number) => void;
+  // Called when a branch is dropped on another node; `conditionValue` is
+  // undefined for the rule's default route. Branches cannot be dragged
+  // without it.
+  onRetarget?: (
+    stepId: string,
+    conditionValue: string | undefined,
+    target: string
+  ) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 90;
+const ROW_GAP = 36;
+// Leaves room for loops drawn above and back edges drawn below the nodes
+const PADDING = 60;
+// Node key of the "form finished" node every finishing route leads to
+const FINISH_ID = "__finish";
+
+// Columns by distance from the first page, with unreachable pages in a
+// column of their own before the finish node
+const layoutNodes = (steps: Step[], edges: NavigationEdge[]) => {
+  const columns = new Map<string, number>();
+  const start = steps[0]?.id;
+  const queue = start ? [start] : [];
+  if (start) columns.set(start, 0);
+  while (queue.length > 0) {
+    const from = queue.shift()!;
+    edges
+      .filter((edge) => edge.from === from && edge.to && !columns.has(edge.to))
+      .forEach((edge) => {
+        columns.set(edge.to!, columns.get(from)! + 1);
+        queue.push(edge.to!);
+      });
+  }
+
+  const unreachableColumn = Math.max(-1, ...columns.values()) + 1;
+  const finishColumn = steps.some((step) => !columns.has(step.id))
+    ? unreachableColumn + 1
+    : unreachableColumn;
+  const columnX = (column: number) =>
+    PADDING + column * (NODE_WIDTH + COLUMN_GAP);
+
+  const rowCounts = new Map<number, number>();
+  const positions = new Map<string, Point>();
+  steps.forEach((step) => {
+    const column = columns.get(step.id) ?? unreachableColumn;
+    const row = rowCounts.get(column) ?? 0;
+    rowCounts.set(column, row + 1);
+    positions.set(step.id, {
+      x: columnX(column),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+    });
+  });
+
+  const rows = Math.max(1, ...rowCounts.values());
+  const height = rows * NODE_HEIGHT + (rows - 1) * ROW_GAP;
+  positions.set(FINISH_ID, {
+    x: columnX(finishColumn),
+    y: PADDING + (height - NODE_HEIGHT) / 2,
+  });
+
+  return {
+    positions,
+    width: columnX(finishColumn) + NODE_WIDTH + PADDING,
+    height: height + PADDING * 2,
+  };
+};
+
+// Point halfway along a cubic bezier, where the edge label goes
+const bezierMiddle = (points: Point[]): Point => ({
+  x: (points[0].x + 3 * points[1].x + 3 * points[2].x + points[3].x) / 8,
+  y: (points[0].y + 3 * points[1].y + 3 * points[2].y + points[3].y) / 8,
+});
+
+/**
+ * Curve from one node to another. `index` and `count` spread out parallel
+ * edges between the same two nodes. Forward edges leave the right side;
+ * loops and edges back to earlier columns curve below (or above, for a page
+ * that leads to itself). A null `to` draws a short stub for a missing page.
+ */
+const edgeGeometry = (
+  from: Point,
+  to: Point | null,
+  index: number,
+  count: number
+) => {
+  let points: Point[];
+  if (!to) {
+    const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 };
+    const end = { x: start.x + COLUMN_GAP / 2, y: start.y - 20 - index * 16 };
+    points = [start, start, end, end];
+  } else if (to === from) {
+    const top = from.y - 36 - index * 14;
+    points = [
+      { x: from.x + NODE_WIDTH * 0.35, y: from.y },
+      { x: from.x + NODE_WIDTH * 0.3, y: top },
+      { x: from.x + NODE_WIDTH * 0.7, y: top },
+      { x: from.x + NODE_WIDTH * 0.65, y: from.y },
+    ];
+  } else if (to.x > from.x) {
+    const bend = (index - (count - 1) / 2) * 28;
+    const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 };
+    const end = { x: to.x, y: to.y + NODE_HEIGHT / 2 };
+    const dx = (end.x - start.x) / 2;
+    points = [
+      start,
+      { x: start.x + dx, y: start.y + bend },
+      { x: end.x - dx, y: end.y + bend },
+      end,
+    ];
+  } else {
+    const start = { x: from.x + NODE_WIDTH / 2, y: from.y + NODE_HEIGHT };
+    const end = { x: to.x + NODE_WIDTH / 2, y: to.y + NODE_HEIGHT };
+    const bottom = Math.max(start.y, end.y) + 44 + index * 18;
+    points = [start, { x: start.x, y: bottom }, { x: end.x, y: bottom }, end];
+  }
+
+  const [p0, p1, p2, p3] = points;
+  return {
+    path: `M ${p0.x} ${p0.y} C ${p1.x} ${p1.y}, ${p2.x} ${p2.y}, ${p3.x} ${p3.y}`,
+    label: bezierMiddle(points),
+    end: p3,
+  };
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const legendSwatch = (fill: string, stroke: string, dashed = false) => ({
+  display: "inline-block",
+  width: "12px",
+  height: "10px",
+  marginRight: "4px",
+  verticalAlign: "middle",
+  backgroundColor: fill,
+  border: `1px ${dashed ? "dashed" : "solid"} ${stroke}`,
+  borderRadius: "3px",
+});
+
+/**
+ * The flow as a graph: one node per page, one labeled edge per navigation
+ * route. Pages no route leads to and pages from which the form can never
+ * finish are highlighted. Clicking a page selects it; dragging the dot at
+ * the end of a branch onto another node points that branch there.
+ */
+export const FlowGraph = ({
+  steps,
+  currentStepId,
+  onSelectStep,
+  onRetarget,
+}: FlowGraphProps) => {
+  const markerId = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{
+    edge: NavigationEdge;
+    pointer: Point;
+  } | null>(null);
+
+  const { edges, positions, width, height, reachable, deadEnds } =
+    useMemo(() => {
+      const { edges } = buildNavigationGraph(steps);
+      return {
+        edges,
+        ...layoutNodes(steps, edges),
+        reachable: getReachableStepIds(steps),
+        deadEnds: getDeadEndStepIds(steps),
+      };
+    }, [steps]);
+
+  if (steps.length === 0) {
+    return (
+      <div style={{ fontSize: "12px", color: "#6b7280" }}>
+        Add a page to see the flow
+      </div>
+    );
+  }
+
+  const isMissing = (edge: NavigationEdge) =>
+    edge.to === null && !isNavigationKeyword(edge.target);
+  // Default routes of pages without a rule always continue
+  const isDraggable = (edge: NavigationEdge) =>
+    !!onRetarget &&
+    !!steps.find((s) => s.id === edge.from)?.navigationRule?.fieldId;
+
+  const edgeLabel = (edge: NavigationEdge): string => {
+    const rule = steps.find((s) => s.id === edge.from)?.navigationRule;
+    const label = edge.condition
+      ? `"${truncate(edge.condition.value, 16)}"`
+      : rule?.fieldId && rule.conditions.length > 0
+      ? "otherwise"
+      : "";
+    if (isMissing(edge)) return `${label} → missing page`.trim();
+    if (edge.target === "skip") return `${label} (skip)`.trim();
+    return label;
+  };
+
+  const edgeTitle = (edge: NavigationEdge): string => {
+    const step = steps.find((s) => s.id === edge.from);
+    const target = describeNavigationTarget(steps, edge.target);
+    if (!edge.condition) {
+      return `${step?.name}: ${
+        step?.navigationRule?.fieldId ? "otherwise" : "next"
+      } → ${target}`;
+    }
+    const field = flattenFields(steps.flatMap((s) => s.fields)).find(
+      (f) => f.id === edge.condition!.fieldId
+    );
+    return `${step?.name}: "${field?.title ?? edge.condition.fieldId}" is "${
+      edge.condition.value
+    }" → ${target}`;
+  };
+
+  // Edges joining the same two nodes, so parallel ones can be spread out
+  const nodePair = (edge: NavigationEdge) =>
+    `${edge.from}→${isMissing(edge) ? "" : edge.to ?? FINISH_ID}`;
+  const siblings = new Map<string, NavigationEdge[]>();
+  edges.forEach((edge) =>
+    siblings.set(nodePair(edge), [
+      ...(siblings.get(nodePair(edge)) ?? []),
+      edge,
+    ])
+  );
+  const geometryOf = (edge: NavigationEdge) => {
+    const group = siblings.get(nodePair(edge))!;
+    return edgeGeometry(
+      positions.get(edge.from)!,
+      isMissing(edge) ? null : positions.get(edge.to ?? FINISH_ID)!,
+      group.indexOf(edge),
+      group.length
+    );
+  };
+
+  const toSvgPoint = (event: PointerEvent): Point | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(
+      matrix.inverse()
+    );
+    return { x: point.x, y: point.y };
+  };
+
+  const nodeAt = (point: Point): string | undefined =>
+    [...positions.entries()].find(
+      ([, position]) =>
+        point.x >= position.x &&
+        point.x <= position.x + NODE_WIDTH &&
+        point.y >= position.y &&
+        point.y <= position.y + NODE_HEIGHT
+    )?.[0];
+
+  const dropTarget = drag ? nodeAt(drag.pointer) : undefined;
+
+  const finishDrag = (event: PointerEvent) => {
+    if (!drag) return;
+    const point = toSvgPoint(event);
+    const node = point ? nodeAt(point) : undefined;
+    setDrag(null);
+    if (!node || !onRetarget) return;
+
+    const target = node === FINISH_ID ? "end" : node;
+    if (target !== drag.edge.target) {
+      onRetarget(drag.edge.from, drag.edge.condition?.value, target);
+    }
+  };
+
+  const finish = positions.get(FINISH_ID)!;
+
+  return (
+    <div>
+      <div style={{ overflow: "auto", maxHeight: "420px" }}>
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          style={{ display: "block", fontFamily: "inherit" }}
+          onPointerMove={(event) => {
+            if (!drag) return;
+            const pointer = toSvgPoint(event);
+            if (pointer) setDrag({ ...drag, pointer });
+          }}
+          onPointerUp={finishDrag}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <defs>
+            <marker
+              id={markerId}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="7"
+              markerHeight="7"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+          </defs>
+
+          {/* Edges */}
+          {edges.map((edge, index) => {
+            const { path, label, end } = geometryOf(edge);
+            const missing = isMissing(edge);
+            const dragging = drag?.edge === edge;
+            const text = edgeLabel(edge);
+            return (
+              <g key={index} opacity={dragging ? 0.3 : 1}>
+                <title>{edgeTitle(edge)}</title>
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={
+                    missing ? "#ef4444" : edge.condition ? "#8b5cf6" : "#9ca3af"
+                  }
+                  strokeWidth={1.5}
+                  strokeDasharray={missing ? "4 3" : undefined}
+                  markerEnd={missing ? undefined : `url(#${markerId})`}
+                />
+                {text && (
+                  <text
+                    x={label.x}
+                    y={label.y - 4}
+                    textAnchor="middle"
+                    fontSize="11"
+                    fill={missing ? "#dc2626" : "#4b5563"}
+                    stroke="#ffffff"
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {text}
+                  </text>
+                )}
+                {isDraggable(edge) && (
+                  <circle
+                    cx={end.x}
+                    cy={end.y}
+                    r={5}
+                    fill={missing ? "#ef4444" : "#8b5cf6"}
+                    stroke="#ffffff"
+                    strokeWidth={1.5}
+                    style={{ cursor: "grab" }}
+                    onPointerDown={(event) => {
+                      event.preventDefault();
+                      event.stopPropagation();
+                      const pointer = toSvgPoint(event);
+                      if (!pointer) return;
+                      svgRef.current?.setPointerCapture(event.pointerId);
+                      setDrag({ edge, pointer });
+                    }}
+                  />
+                )}
+              </g>
+            );
+          })}
+
+          {/* Edge being dragged */}
+          {drag &&
+            (() => {
+              const from = positions.get(drag.edge.from)!;
+              return (
+                <line
+                  x1={from.x + NODE_WIDTH}
+                  y1={from.y + NODE_HEIGHT / 2}
+                  x2={drag.pointer.x}
+                  y2={drag.pointer.y}
+                  stroke="#8b5cf6"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  markerEnd={`url(#${markerId})`}
+                  pointerEvents="none"
+                />
+              );
+            })()}
+
+          {/* Pages */}
+          {steps.map((step, index) => {
+            const { x, y } = positions.get(step.id)!;
+            const unreachable = !reachable.has(step.id);
+            const deadEnd = !unreachable && deadEnds.has(step.id);
+            const status = unreachable
+              ? "Unreachable"
+              : deadEnd
+              ? "Dead end"
+              : `${step.fields.length} field${
+                  step.fields.length === 1 ? "" : "s"
+                }${step.navigationRule?.fieldId ? " · branches" : ""}`;
+            return (
+              <g
+                key={step.id}
+                transform={`translate(${x}, ${y})`}
+                onClick={() => onSelectStep(index)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" || event.key === " ") {
+                    event.preventDefault();
+                    onSelectStep(index);
+                  }
+                }}
+                tabIndex={0}
+                role="button"
+                style={{ cursor: "pointer", outline: "none" }}
+              >
+                <title>{step.name || `Page ${index + 1}`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  fill={
+                    unreachable ? "#f3f4f6" : deadEnd ? "#fef2f2" : "#ffffff"
+                  }
+                  stroke={
+                    dropTarget === step.id
+                      ? "#8b5cf6"
+                      : step.id === currentStepId
+                      ? "#3b82f6"
+                      : deadEnd
+                      ? "#ef4444"
+                      : "#9ca3af"
+                  }
+                  strokeWidth={
+                    dropTarget === step.id || step.id === currentStepId ? 2 : 1
+                  }
+                  strokeDasharray={unreachable ? "4 3" : undefined}
+                />
+                <text
+                  x={10}
+                  y={21}
+                  fontSize="12"
+                  fontWeight="600"
+                  fill="#111827"
+                >
+                  {index + 1}. {truncate(step.name || "Untitled page", 18)}
+                </text>
+                <text
+                  x={10}
+                  y={39}
+                  fontSize="11"
+                  fill={deadEnd ? "#dc2626" : "#6b7280"}
+                >
+                  {status}
+                </text>
+                {index === 0 && (
+                  <text x={0} y={-6} fontSize="10" fill="#059669">
+                    ▶ Start
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Finish */}
+          <g transform={`translate(${finish.x}, ${finish.y})`}>
+            <title>The form is finished</title>
+            <rect
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={NODE_HEIGHT / 2}
+              fill="#ecfdf5"
+              stroke={dropTarget === FINISH_ID ? "#8b5cf6" : "#10b981"}
+              strokeWidth={dropTarget === FINISH_ID ? 2 : 1}
+            />
+            <text
+              x={NODE_WIDTH / 2}
+              y={NODE_HEIGHT / 2 + 4}
+              textAnchor="middle"
+              fontSize="12"
+              fontWeight="600"
+              fill="#059669"
+            >
+              🏁 Finish
+            </text>
+          </g>
+        </svg>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "12px",
+          marginTop: "8px",
+          fontSize: "11px",
+          color: "#6b7280",
+        }}
+      >
+        <span>
+          <span style={legendSwatch("#ffffff", "#3b82f6")} />
+          Current page
+        </span>
+        <span>
+          <span style={legendSwatch("#f3f4f6", "#9ca3af", true)} />
+          Unreachable
+        </span>
+        <span>
+          <span style={legendSwatch("#fef2f2", "#ef4444")} />
+          Dead end (never finishes)
+        </span>
+        {onRetarget && (
+          <span>
+            Drag the dot at the end of a branch onto another page, or onto
+            Finish to end the form there
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import { useMemo } from "react";
+import {
+  MAX_SIMULATED_PATHS,
+  flattenFields,
+  simulateFlow,
+  type SimulatedRoute,
+  type Step,
+} from "./flow-core";
+
+interface FlowSimulatorProps {
+  steps: Step[];
+  onSelectStep: (stepIndex: number) => void;
+}
+
+const sectionTitleStyle = {
+  fontSize: "12px",
+  fontWeight: "600",
+  color: "#374151",
+  marginBottom: "6px",
+};
+
+const pageButtonStyle = {
+  padding: "1px 6px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  backgroundColor: "#ffffff",
+  cursor: "pointer",
+  fontSize: "12px",
+  color: "#374151",
+};
+
+const OUTCOMES: Record<
+  SimulatedRoute["outcome"],
+  { label: string; color: string }
+> = {
+  complete: { label: "🏁 Finishes", color: "#059669" },
+  end: { label: "🛑 Ends early", color: "#059669" },
+  loop: { label: "🔁 Loops back to", color: "#a16207" },
+  missingTarget: { label: "❓ Goes to a missing page", color: "#dc2626" },
+  missingAnswer: { label: "⚠️ Rule reads a missing field", color: "#dc2626" },
+};
+
+/**
+ * Tries every branch of the flow at once: lists each distinct route with the
+ * answers that lead down it, flags loops and broken rules, and reports which
+ * pages and branches no route reaches. Pages in the report open on click.
+ */
+export const FlowSimulator = ({ steps, onSelectStep }: FlowSimulatorProps) => {
+  const simulation = useMemo(() => simulateFlow(steps), [steps]);
+
+  const fields = flattenFields(steps.flatMap((step) => step.fields));
+  const stepName = (stepId: string) => {
+    const index = steps.findIndex((s) => s.id === stepId);
+    return index === -1 ? stepId : steps[index].name || `Page ${index + 1}`;
+  };
+  const pageButton = (stepId: string) => (
+    <button
+      key={stepId}
+      onClick={() => onSelectStep(steps.findIndex((s) => s.id === stepId))}
+      style={pageButtonStyle}
+      title="Open this page"
+    >
+      {stepName(stepId)}
+    </button>
+  );
+
+  const { routes, coverage, truncated } = simulation;
+  const loops = routes.filter((route) => route.outcome === "loop").length;
+  const visitedCount = coverage.steps.filter((s) => s.visited).length;
+  const exercisedCount = coverage.conditions.filter((c) => c.exercised).length;
+  const unvisited = coverage.steps.filter((s) => !s.visited);
+  // Branches of pages never shown are covered by the page's own entry
+  const unexercised = coverage.conditions.filter(
+    (c) => !c.exercised && !unvisited.some((s) => s.stepId === c.stepId)
+  );
+
+  if (steps.length === 0) {
+    return (
+      <div style={{ fontSize: "12px", color: "#6b7280" }}>
+        Add a page to simulate the flow
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <div style={{ fontSize: "12px", color: "#4b5563" }}>
+        {routes.length} route{routes.length === 1 ? "" : "s"}
+        {loops > 0 && ` · ${loops} loop${loops === 1 ? "" : "s"}`} · Pages
+        covered {visitedCount}/{coverage.steps.length}
+        {coverage.conditions.length > 0 &&
+          ` · Branches covered ${exercisedCount}/${coverage.conditions.length}`}
+      </div>
+
+      {truncated && (
+        <div style={{ fontSize: "12px", color: "#a16207" }}>
+          ⚠️ Stopped after {MAX_SIMULATED_PATHS} answer combinations; some
+          routes and coverage are missing
+        </div>
+      )}
+
+      {/* Routes */}
+      <div>
+        <div style={sectionTitleStyle}>Routes</div>
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+            maxHeight: "280px",
+            overflow: "auto",
+          }}
+        >
+          {routes.map((route, index) => {
+            const outcome = OUTCOMES[route.outcome];
+            return (
+              <div
+                key={index}
+                style={{
+                  padding: "8px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "6px",
+                  fontSize: "12px",
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    alignItems: "center",
+                    gap: "4px",
+                  }}
+                >
+                  <strong style={{ marginRight: "4px" }}>{index + 1}.</strong>
+                  {route.stepIds.map((stepId, position) => (
+                    <span key={stepId} style={{ display: "contents" }}>
+                      {position > 0 && (
+                        <span style={{ color: "#9ca3af" }}>→</span>
+                      )}
+                      {pageButton(stepId)}
+                    </span>
+                  ))}
+                  <span style={{ color: "#9ca3af" }}>→</span>
+                  <span style={{ color: outcome.color }}>
+                    {outcome.label}
+                    {route.outcome === "missingTarget" && ` "${route.target}"`}
+                  </span>
+                  {route.loopStepId && pageButton(route.loopStepId)}
+                </div>
+
+                {route.choices.length > 0 && (
+                  <div style={{ marginTop: "4px", color: "#6b7280" }}>
+                    {route.choices.map((choice) => {
+                      const title =
+                        fields.find((f) => f.id === choice.fieldId)?.title ||
+                        choice.fieldId;
+                      const answers = [
+                        ...choice.values.map((value) => `"${value}"`),
+                        ...(choice.otherwise ? ["any other answer"] : []),
+                      ];
+                      return (
+                        <div key={choice.stepId}>
+                          {title}: {answers.join(" or ")}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Coverage */}
+      <div>
+        <div style={sectionTitleStyle}>Coverage</div>
+        {unvisited.length === 0 && unexercised.length === 0 ? (
+          <div style={{ fontSize: "12px", color: "#059669" }}>
+            ✓ Every page and branch is reached by some route
+          </div>
+        ) : (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "4px",
+              fontSize: "12px",
+              color: "#374151",
+            }}
+          >
+            {unvisited.map(({ stepId }) => (
+              <div key={stepId}>❌ {pageButton(stepId)} is never shown</div>
+            ))}
+            {unexercised.map((condition) => (
+              <div key={`${condition.stepId}:${condition.value ?? ""}`}>
+                ⚠️ {pageButton(condition.stepId)}{" "}
+                {condition.value === undefined
+                  ? "default route is never taken"
+                  : `branch "${condition.value}" is never taken`}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { FieldErrorList, FieldInput } from "./FieldInput";
+import {
+  applyCalculatedFields,
+  buildFormulaScope,
+  flattenFields,
+  getInitialAnswers,
+  isFieldVisible,
+  migrateNavigationRules,
+  resolveNextStep,
+  validateStepAnswers,
+  type FieldErrors,
+  type FlowAnswers,
+  type SavedFlow,
+  type StepAnswers,
+  type TemplateContext,
+} from "./flow-core";
+
+export interface FormRunnerProps {
+  flow: SavedFlow;
+  context?: TemplateContext;
+  // Answers of every page on the route taken, keyed by step ID. `outcome` is
+  // "end" when a navigation rule ended the form early.
+  onSubmit: (answers: FlowAnswers, outcome: "complete" | "end") => void;
+}
+
+/**
+ * Runs a saved flow for end users: one page at a time, with branching,
+ * required-field validation and a Back button that follows the route taken.
+ */
+export const FormRunner = ({
+  flow,
+  context = {},
+  onSubmit,
+}: FormRunnerProps) => {
+  // Flows saved before rules targeted step IDs run unchanged
+  const steps = migrateNavigationRules(flow.steps);
+
+  // Indices of visited pages; the last entry is the page on screen
+  const [history, setHistory] = useState<number[]>([0]);
+  const [answers, setAnswers] = useState<FlowAnswers>({});
+  // Page-level messages above the buttons; field messages sit under fields
+  const [errors, setErrors] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  const stepIndex = history[history.length - 1];
+  const step = steps[stepIndex];
+
+  if (!step) {
+    return (
+      <div style={{ padding: "24px", color: "#6b7280", fontSize: "14px" }}>
+        This form has no pages.
+      </div>
+    );
+  }
+
+  const answersFor = (index: number): StepAnswers =>
+    answers[steps[index].id] ?? getInitialAnswers(steps[index], context);
+
+  // Answers of each visited page in order, with calculated fields worked out
+  // from everything answered up to that page
+  const routeAnswers = history.reduce<StepAnswers[]>(
+    (previous, index) => [
+      ...previous,
+      applyCalculatedFields(steps[index], answersFor(index), previous),
+    ],
+    []
+  );
+  const stepAnswers = routeAnswers[routeAnswers.length - 1];
+  const previousAnswers = routeAnswers.slice(0, -1);
+
+  // Conditions and branching may read answers from earlier pages
+  const flowFields = steps.flatMap((s) => s.fields);
+  const scope = buildFormulaScope(previousAnswers, stepAnswers);
+
+  const updateAnswers = (changes: StepAnswers) => {
+    setAnswers((prev) => ({
+      ...prev,
+      [step.id]: {
+        ...(prev[step.id] ?? getInitialAnswers(step, context)),
+        ...changes,
+      },
+    }));
+    // A field's messages go away once it is changed
+    setFieldErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([fieldId]) => !(fieldId in changes))
+      )
+    );
+  };
+
+  // Collect answers along the visited route, dropping hidden fields
+  const finish = (outcome: "complete" | "end") => {
+    const result: FlowAnswers = {};
+    history.forEach((index, position) => {
+      const visitedStep = steps[index];
+      const visitedAnswers = routeAnswers[position];
+      result[visitedStep.id] = Object.fromEntries(
+        Object.entries(visitedAnswers).filter(([fieldId]) => {
+          const field = flattenFields(visitedStep.fields).find(
+            (f) => f.id === fieldId
+          );
+          return (
+            field &&
+            isFieldVisible(
+              field,
+              visitedStep.fields,
+              buildFormulaScope(
+                routeAnswers.slice(0, position),
+                visitedAnswers
+              ),
+              flowFields
+            )
+          );
+        })
+      );
+    });
+
+    setSubmitted(true);
+    onSubmit(result, outcome);
+  };
+
+  const goNext = () => {
+    const validation = validateStepAnswers(
+      step,
+      stepAnswers,
+      previousAnswers,
+      flowFields
+    );
+    if (!validation.valid) {
+      setErrors(validation.pageErrors);
+      setFieldErrors(validation.fieldErrors);
+      return;
+    }
+    setFieldErrors({});
+
+    const outcome = resolveNextStep(steps, stepIndex, scope);
+
+    switch (outcome.type) {
+      case "goto":
+        setHistory([...history, outcome.stepIndex]);
+        setErrors([]);
+        break;
+      case "complete":
+      case "end":
+        setErrors([]);
+        finish(outcome.type);
+        break;
+      case "missingAnswer": {
+        const field = flattenFields(flowFields).find(
+          (f) => f.id === outcome.fieldId
+        );
+        setErrors([`Please answer "${field?.title || outcome.fieldId}"`]);
+        break;
+      }
+      case "missingTarget":
+        setErrors([`Page "${outcome.target}" not found`]);
+        break;
+    }
+  };
+
+  const goBack = () => {
+    if (history.length > 1) {
+      setHistory(history.slice(0, -1));
+      setErrors([]);
+      setFieldErrors({});
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div
+        style={{
+          padding: "48px 24px",
+          textAlign: "center",
+          fontSize: "16px",
+          color: "#10b981",
+        }}
+      >
+        ✅ Thank you, your answers have been submitted.
+      </div>
+    );
+  }
+
+  const isLastStep = stepIndex === steps.length - 1;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "white",
+        border: "1px solid #e5e7eb",
+        borderRadius: "8px",
+      }}
+    >
+      <div style={{ padding: "24px", borderBottom: "1px solid #e5e7eb" }}>
+        <h2
+          style={{
+            margin: "0 0 4px 0",
+            fontSize: "20px",
+            fontWeight: "600",
+            color: "#1f2937",
+          }}
+        >
+          {step.name}
+        </h2>
+        {step.description && (
+          <p style={{ margin: 0, fontSize: "14px", color: "#6b7280" }}>
+            {step.description}
+          </p>
+        )}
+      </div>
+
+      <div
+        style={{
+          padding: "24px",
+          display: "flex",
+          flexDirection: "column",
+          gap: "20px",
+        }}
+      >
+        {step.fields
+          .filter((field) =>
+            isFieldVisible(field, step.fields, scope, flowFields)
+          )
+          .map((field) =>
+            field.type === "title" ? (
+              <div key={field.id}>
+                <h3
+                  style={{
+                    fontSize: "18px",
+                    fontWeight: "600",
+                    color: "#1f2937",
+                    margin: "0 0 8px 0",
+                  }}
+                >
+                  {field.title}
+                </h3>
+                {field.placeholder && (
+                  <p style={{ fontSize: "14px", color: "#6b7280", margin: 0 }}>
+                    {field.placeholder}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div
+                key={field.id}
+                style={{ display: "flex", flexDirection: "column" }}
+              >
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "14px",
+                    fontWeight: "500",
+                    color: "#374151",
+                    marginBottom: "6px",
+                  }}
+                >
+                  {field.title}
+                  {field.required && (
+                    <span style={{ color: "#ef4444" }}>*</span>
+                  )}
+                </label>
+                <FieldInput
+                  field={field}
+                  value={
+                    field.type === "group" ? stepAnswers : stepAnswers[field.id]
+                  }
+                  onChange={(value) =>
+                    updateAnswers(
+                      field.type === "group"
+                        ? (value as StepAnswers)
+                        : { [field.id]: value }
+                    )
+                  }
+                  onError={(message) => setErrors([message])}
+                  isVisible={(child) =>
+                    isFieldVisible(child, step.fields, scope, flowFields)
+                  }
+                  errors={fieldErrors}
+                />
+                <FieldErrorList messages={fieldErrors[field.id]} />
+              </div>
+            )
+          )}
+      </div>
+
+      {errors.length > 0 && (
+        <div
+          style={{
+            margin: "0 24px 16px",
+            padding: "12px",
+            backgroundColor: "#fef2f2",
+            border: "1px solid #fecaca",
+            borderRadius: "6px",
+            fontSize: "13px",
+            color: "#b91c1c",
+          }}
+        >
+          {errors.map((error, index) => (
+            <div key={index}>⚠️ {error}</div>
+          ))}
+        </div>
+      )}
+
+      <div
+        style={{
+          padding: "16px 24px",
+          backgroundColor: "#f9fafb",
+          borderTop: "1px solid #e5e7eb",
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <button
+          onClick={goBack}
+          disabled={history.length === 1}
+          style={{
+            padding: "8px 16px",
+            backgroundColor: history.length === 1 ? "#9ca3af" : "#6b7280",
+            border: "none",
+            borderRadius: "6px",
+            cursor: history.length === 1 ? "not-allowed" : "pointer",
+            fontSize: "14px",
+          }}
+        >
+          ← Back
+        </button>
+        <div style={{ fontSize: "12px", color: "#6b7280" }}>
+          Page {stepIndex + 1} of {steps.length}
+        </div>
+        <button
+          onClick={goNext}
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#0ea5e9",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            fontSize: "14px",
+            fontWeight: "500",
+          }}
+        >
+          {isLastStep ? "Submit" : "Next →"}
+        </button>
+      </div>
+    </div>
+  );
+};
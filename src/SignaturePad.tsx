@@ -0,0 +1,247 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+} from "react";
+
+interface SignaturePadProps {
+  // PNG data URL, or "" when nothing has been signed
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+type Point = { x: number; y: number };
+
+const PAD_WIDTH = 400;
+const PAD_HEIGHT = 150;
+
+// Paint the previously saved signature (if any) and the strokes on top of it
+const drawSignature = (
+  canvas: HTMLCanvasElement,
+  baseImage: HTMLImageElement | null,
+  strokes: Point[][]
+) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (baseImage) ctx.drawImage(baseImage, 0, 0, canvas.width, canvas.height);
+
+  ctx.lineWidth = 2;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = "#111827";
+
+  strokes.forEach((stroke) => {
+    ctx.beginPath();
+    stroke.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+        // A single tap still leaves a dot
+        ctx.lineTo(point.x + 0.1, point.y + 0.1);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.stroke();
+  });
+};
+
+/**
+ * Canvas signature capture with undo/redo per stroke. Reports the drawing as
+ * a PNG data URL after every stroke.
+ */
+export const SignaturePad = ({
+  value,
+  onChange,
+  disabled,
+}: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<Point[][]>([]);
+  const undoneRef = useRef<Point[][]>([]);
+  const drawingRef = useRef(false);
+  // Last value this pad reported, so our own updates are not reloaded
+  const emittedRef = useRef<string | null>(null);
+  // A signature passed in from outside (e.g. returning to the page)
+  const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
+  const [strokeCount, setStrokeCount] = useState(0);
+  const [undoneCount, setUndoneCount] = useState(0);
+
+  const syncCounts = () => {
+    setStrokeCount(strokesRef.current.length);
+    setUndoneCount(undoneRef.current.length);
+  };
+
+  useEffect(() => {
+    if (value === emittedRef.current) return;
+
+    emittedRef.current = value;
+    strokesRef.current = [];
+    undoneRef.current = [];
+    setStrokeCount(0);
+    setUndoneCount(0);
+
+    if (!value) {
+      setBaseImage(null);
+      return;
+    }
+
+    const image = new Image();
+    image.onload = () => setBaseImage(image);
+    image.src = value;
+  }, [value]);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawSignature(canvasRef.current, baseImage, strokesRef.current);
+    }
+  }, [baseImage]);
+
+  const redrawAndEmit = (image: HTMLImageElement | null = baseImage) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    drawSignature(canvas, image, strokesRef.current);
+    const dataUrl =
+      image || strokesRef.current.length > 0
+        ? canvas.toDataURL("image/png")
+        : "";
+    emittedRef.current = dataUrl;
+    onChange(dataUrl);
+    syncCounts();
+  };
+
+  const toCanvasPoint = (e: ReactPointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    strokesRef.current = [...strokesRef.current, [toCanvasPoint(e)]];
+    undoneRef.current = [];
+    drawSignature(e.currentTarget, baseImage, strokesRef.current);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+
+    const strokes = strokesRef.current;
+    strokes[strokes.length - 1].push(toCanvasPoint(e));
+    drawSignature(e.currentTarget, baseImage, strokes);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+
+    drawingRef.current = false;
+    redrawAndEmit();
+  };
+
+  const undoStroke = () => {
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    if (!stroke) return;
+
+    strokesRef.current = strokesRef.current.slice(0, -1);
+    undoneRef.current = [...undoneRef.current, stroke];
+    redrawAndEmit();
+  };
+
+  const redoStroke = () => {
+    const stroke = undoneRef.current[undoneRef.current.length - 1];
+    if (!stroke) return;
+
+    undoneRef.current = undoneRef.current.slice(0, -1);
+    strokesRef.current = [...strokesRef.current, stroke];
+    redrawAndEmit();
+  };
+
+  const clear = () => {
+    strokesRef.current = [];
+    undoneRef.current = [];
+    setBaseImage(null);
+    redrawAndEmit(null);
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    padding: "4px 10px",
+    border: "1px solid #d1d5db",
+    borderRadius: "4px",
+    backgroundColor: "#ffffff",
+    cursor: enabled ? "pointer" : "not-allowed",
+    opacity: enabled ? 1 : 0.5,
+    fontSize: "12px",
+  });
+
+  const isEmpty = strokeCount === 0 && !baseImage;
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{
+          display: "block",
+          width: "100%",
+          maxWidth: `${PAD_WIDTH}px`,
+          aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}`,
+          border: "1px dashed #9ca3af",
+          borderRadius: "6px",
+          backgroundColor: "#ffffff",
+          cursor: disabled ? "not-allowed" : "crosshair",
+          touchAction: "none",
+        }}
+      />
+      <div
+        style={{
+          display: "flex",
+          gap: "8px",
+          marginTop: "6px",
+          alignItems: "center",
+        }}
+      >
+        <button
+          type="button"
+          onClick={undoStroke}
+          disabled={disabled || strokeCount === 0}
+          style={buttonStyle(!disabled && strokeCount > 0)}
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={redoStroke}
+          disabled={disabled || undoneCount === 0}
+          style={buttonStyle(!disabled && undoneCount > 0)}
+        >
+          ↷ Redo
+        </button>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={disabled || isEmpty}
+          style={buttonStyle(!disabled && !isEmpty)}
+        >
+          Clear
+        </button>
+        {isEmpty && (
+          <span style={{ fontSize: "12px", color: "#6b7280" }}>Sign above</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import type { FormField } from "./flow-core";
+
+// Field Types Configuration
+export const FIELD_TYPES: {
+  type: FormField["type"];
+  label: string;
+  icon: string;
+}[] = [
+  { type: "title", label: "Title/Heading", icon: "📋" },
+  { type: "text", label: "Text Input", icon: "📝" },
+  { type: "textarea", label: "Long Text", icon: "📄" },
+  { type: "number", label: "Number", icon: "🔢" },
+  { type: "integer", label: "Whole Number", icon: "#️⃣" },
+  { type: "date", label: "Date", icon: "📅" },
+  { type: "time", label: "Time", icon: "🕒" },
+  { type: "datetime", label: "Date & Time", icon: "🗓️" },
+  { type: "select", label: "Dropdown", icon: "📋" },
+  { type: "radio", label: "Radio Buttons", icon: "⚪" },
+  { type: "checkbox", label: "Checkboxes", icon: "☑️" },
+  { type: "file", label: "File Upload", icon: "📎" },
+  { type: "signature", label: "Signature", icon: "✍️" },
+  { type: "repeater", label: "Repeating Rows", icon: "🧾" },
+  { type: "group", label: "Group / Section", icon: "🗂️" },
+  { type: "calculated", label: "Calculated", icon: "🧮" },
+  { type: "readonly", label: "Read-only Text", icon: "🔒" },
+];
@@ -0,0 +1,564 @@
+import { getIdentifierProblem } from "./expression";
+import { FORM_FIELD_TYPES, isFormFieldType } from "./fields";
+import { buildNavigationGraph, migrateNavigationRules } from "./navigation";
+import { generateAllSchemas } from "./schema";
+import { CONDITION_OPERATORS } from "./visibility";
+import type {
+  FlowBundle,
+  FormField,
+  NavigationRule,
+  SavedFlow,
+  Step,
+} from "./types";
+
+export interface ImportIssue {
+  level: "error" | "warning";
+  // Location inside the imported file, e.g. "steps[1].fields[0].type"
+  path: string;
+  message: string;
+}
+
+export interface FlowImportResult {
+  // null when the file has errors and nothing can be loaded
+  flow: SavedFlow | null;
+  source: "bundle" | "savedFlow" | null;
+  issues: ImportIssue[];
+}
+
+// Exported bundle identification - bump the version on breaking changes
+export const FLOW_BUNDLE_FORMAT = "form-builder/flow-bundle";
+export const FLOW_BUNDLE_VERSION = 3;
+
+// Older versions that import with their navigation rules migrated
+const MIGRATED_BUNDLE_VERSIONS = [2];
+
+// Bundle written by "Export JSON" (see FlowBundle for the format). Flows
+// without a description get one naming their page count.
+export const buildFlowBundle = (
+  flow: Pick<SavedFlow, "name" | "steps"> &
+    Partial<Pick<SavedFlow, "description">>
+): FlowBundle => ({
+  format: FLOW_BUNDLE_FORMAT,
+  version: FLOW_BUNDLE_VERSION,
+  name: flow.name,
+  description: flow.description?.trim()
+    ? flow.description
+    : `Form with ${flow.steps.length} pages`,
+  exportedAt: new Date().toISOString(),
+  steps: flow.steps.map((step, index) => ({
+    ...step,
+    order: index + 1,
+    schemas: generateAllSchemas(
+      step,
+      flow.steps.flatMap((s) => s.fields)
+    ),
+  })),
+  navigation: buildNavigationGraph(flow.steps),
+  metadata: {
+    totalSteps: flow.steps.length,
+    totalFields: flow.steps.reduce((sum, step) => sum + step.fields.length, 0),
+    fieldTypes: Array.from(
+      new Set(flow.steps.flatMap((step) => step.fields.map((f) => f.type)))
+    ),
+  },
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+// Append _2, _3, ... until the id is free
+const uniqueId = (id: string, taken: Set<string>): string => {
+  let candidate = id;
+  let counter = 2;
+  while (taken.has(candidate)) {
+    candidate = `${id}_${counter++}`;
+  }
+  return candidate;
+};
+
+// What is wrong with a visibleWhen condition group, or null if it is usable
+const getConditionProblem = (raw: unknown): string | null => {
+  if (!isObject(raw) || !Array.isArray(raw.conditions)) {
+    return "Expected a condition group with a list of conditions";
+  }
+  if (raw.combinator !== "and" && raw.combinator !== "or") {
+    return 'Condition groups combine with "and" or "or"';
+  }
+  for (const item of raw.conditions) {
+    if (isObject(item) && "combinator" in item) {
+      const problem = getConditionProblem(item);
+      if (problem) return problem;
+      continue;
+    }
+    if (!isObject(item) || typeof item.fieldId !== "string") {
+      return "Each condition needs a fieldId";
+    }
+    if (!CONDITION_OPERATORS.some((op) => op.value === item.operator)) {
+      return `Unknown condition operator ${JSON.stringify(item.operator)}`;
+    }
+    if (
+      item.value !== undefined &&
+      typeof item.value !== "string" &&
+      !isStringArray(item.value)
+    ) {
+      return "Condition values must be text or a list of text";
+    }
+  }
+  return null;
+};
+
+const parseField = (
+  raw: unknown,
+  path: string,
+  issues: ImportIssue[]
+): FormField | null => {
+  if (!isObject(raw)) {
+    issues.push({ level: "error", path, message: "Field must be an object" });
+    return null;
+  }
+
+  let valid = true;
+  const fail = (key: string, message: string) => {
+    issues.push({ level: "error", path: `${path}.${key}`, message });
+    valid = false;
+  };
+
+  if (typeof raw.id !== "string" || !raw.id.trim()) {
+    fail("id", "Field ID must be a non-empty string");
+  }
+  if (!isFormFieldType(raw.type)) {
+    fail(
+      "type",
+      `Unknown field type ${JSON.stringify(
+        raw.type
+      )} (expected one of ${FORM_FIELD_TYPES.join(", ")})`
+    );
+  }
+  if (typeof raw.title !== "string") {
+    fail("title", "Field title must be a string");
+  }
+  for (const key of ["required", "collapsible", "collapsed"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean") {
+      fail(key, "Expected true or false");
+    }
+  }
+  if (raw.options !== undefined && !isStringArray(raw.options)) {
+    fail("options", "Options must be a list of strings");
+  } else if (
+    ["select", "radio", "checkbox"].includes(raw.type) &&
+    (!raw.options || raw.options.length === 0)
+  ) {
+    issues.push({
+      level: "warning",
+      path: `${path}.options`,
+      message: "Choice field has no options",
+    });
+  }
+  if (
+    raw.acceptedFileTypes !== undefined &&
+    !isStringArray(raw.acceptedFileTypes)
+  ) {
+    fail("acceptedFileTypes", "Accepted file types must be a list of strings");
+  }
+  if (raw.maxFileSize !== undefined && typeof raw.maxFileSize !== "number") {
+    fail("maxFileSize", "Max file size must be a number");
+  }
+  for (const key of [
+    "min",
+    "max",
+    "step",
+    "precision",
+    "minRows",
+    "maxRows",
+    "columns",
+    "minLength",
+    "maxLength",
+    "minSelections",
+    "maxSelections",
+  ]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "number") {
+      fail(key, "Expected a number");
+    }
+  }
+  for (const key of [
+    "placeholder",
+    "widget",
+    "dependsOn",
+    "showWhen",
+    "unit",
+    "earliest",
+    "latest",
+    "formula",
+    "pattern",
+  ]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") {
+      fail(key, "Expected a string");
+    }
+  }
+  if (raw.visibleWhen !== undefined) {
+    const problem = getConditionProblem(raw.visibleWhen);
+    if (problem) fail("visibleWhen", problem);
+  }
+  if (
+    raw.errorMessages !== undefined &&
+    (!isObject(raw.errorMessages) ||
+      !Object.values(raw.errorMessages).every((m) => typeof m === "string"))
+  ) {
+    fail("errorMessages", "Expected an object of message strings");
+  }
+
+  // Repeater columns and group children are fields too, checked the same way
+  let columns: FormField[] | undefined;
+  if (raw.fields !== undefined) {
+    if (!Array.isArray(raw.fields)) {
+      fail("fields", "Expected a list of fields");
+    } else {
+      const parsed: (FormField | null)[] = raw.fields.map(
+        (column: unknown, columnIndex: number) =>
+          parseField(column, `${path}.fields[${columnIndex}]`, issues)
+      );
+      if (parsed.every((column) => column !== null)) {
+        columns = parsed as FormField[];
+      } else {
+        valid = false;
+      }
+    }
+  }
+
+  if (!valid) return null;
+
+  const idProblem = getIdentifierProblem(raw.id);
+  if (idProblem) {
+    issues.push({
+      level: "warning",
+      path: `${path}.id`,
+      message: `${idProblem}; change it under Field ID in the field settings before exporting`,
+    });
+  }
+
+  return {
+    ...raw,
+    required: raw.required ?? false,
+    ...(columns && { fields: columns }),
+  } as FormField;
+};
+
+const parseNavigationRule = (
+  raw: unknown,
+  path: string,
+  issues: ImportIssue[]
+): NavigationRule | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (!isObject(raw)) {
+    issues.push({
+      level: "error",
+      path,
+      message: "Navigation rule must be an object",
+    });
+    return undefined;
+  }
+
+  if (typeof raw.fieldId !== "string") {
+    issues.push({
+      level: "error",
+      path: `${path}.fieldId`,
+      message: "Navigation field ID must be a string",
+    });
+  }
+  // Older files name the target page (…StepName) instead of its ID
+  for (const key of ["defaultStepId", "defaultStepName"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") {
+      issues.push({
+        level: "error",
+        path: `${path}.${key}`,
+        message: "Default target must be a string",
+      });
+    }
+  }
+  if (!Array.isArray(raw.conditions)) {
+    issues.push({
+      level: "error",
+      path: `${path}.conditions`,
+      message: "Conditions must be a list",
+    });
+    return undefined;
+  }
+
+  raw.conditions.forEach((cond: unknown, index: number) => {
+    if (
+      !isObject(cond) ||
+      typeof cond.value !== "string" ||
+      typeof (cond.nextStepId ?? cond.nextStepName) !== "string"
+    ) {
+      issues.push({
+        level: "error",
+        path: `${path}.conditions[${index}]`,
+        message: 'Condition needs string "value" and "nextStepId"',
+      });
+    }
+  });
+
+  return raw as NavigationRule;
+};
+
+const parseStep = (
+  raw: unknown,
+  index: number,
+  takenFieldIds: Set<string>,
+  issues: ImportIssue[]
+): Step | null => {
+  const path = `steps[${index}]`;
+  if (!isObject(raw)) {
+    issues.push({ level: "error", path, message: "Step must be an object" });
+    return null;
+  }
+
+  const errorCount = issues.filter((i) => i.level === "error").length;
+
+  if (typeof raw.id !== "string" || !raw.id.trim()) {
+    issues.push({
+      level: "error",
+      path: `${path}.id`,
+      message: "Step ID must be a non-empty string",
+    });
+  }
+  if (typeof raw.name !== "string") {
+    issues.push({
+      level: "error",
+      path: `${path}.name`,
+      message: "Step name must be a string",
+    });
+  }
+  if (!Array.isArray(raw.fields)) {
+    issues.push({
+      level: "error",
+      path: `${path}.fields`,
+      message: "Fields must be a list",
+    });
+  }
+
+  const fields = Array.isArray(raw.fields)
+    ? raw.fields.map((field: unknown, fieldIndex: number) =>
+        parseField(field, `${path}.fields[${fieldIndex}]`, issues)
+      )
+    : [];
+  const navigationRule = parseNavigationRule(
+    raw.navigationRule,
+    `${path}.navigationRule`,
+    issues
+  );
+
+  if (issues.filter((i) => i.level === "error").length > errorCount) {
+    return null;
+  }
+
+  // Answers from every page share one scope, so IDs already used on this or
+  // an earlier page (group children included) are renamed; references keep
+  // pointing at the first field
+  const dedupeField = (field: FormField, fieldPath: string): FormField => {
+    const id = uniqueId(field.id, takenFieldIds);
+    takenFieldIds.add(id);
+    if (id !== field.id) {
+      issues.push({
+        level: "warning",
+        path: `${fieldPath}.id`,
+        message: `Duplicate field ID "${field.id}" renamed to "${id}"`,
+      });
+    }
+    if (field.type === "group" && field.fields) {
+      return {
+        ...field,
+        id,
+        fields: field.fields.map((child, childIndex) =>
+          dedupeField(child, `${fieldPath}.fields[${childIndex}]`)
+        ),
+      };
+    }
+    return id === field.id ? field : { ...field, id };
+  };
+  const uniqueFields = (fields as FormField[]).map((field, fieldIndex) =>
+    dedupeField(field, `${path}.fields[${fieldIndex}]`)
+  );
+
+  const step: Step = {
+    id: raw.id,
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    fields: uniqueFields,
+    actionName:
+      typeof raw.actionName === "string"
+        ? raw.actionName
+        : `submitPage${index + 1}`,
+    summaryCheckExpression:
+      typeof raw.summaryCheckExpression === "string"
+        ? raw.summaryCheckExpression
+        : "true",
+  };
+  if (navigationRule) step.navigationRule = navigationRule;
+
+  return step;
+};
+
+/**
+ * Parse the contents of an exported JSON file. Accepts flow bundles written
+ * by "Export JSON" as well as raw SavedFlow objects, and renames IDs that
+ * collide inside the file or with `existingFlows`.
+ */
+export const parseFlowImport = (
+  text: string,
+  existingFlows: SavedFlow[]
+): FlowImportResult => {
+  const issues: ImportIssue[] = [];
+  const failed = (source: FlowImportResult["source"] = null) => ({
+    flow: null,
+    source,
+    issues,
+  });
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    issues.push({
+      level: "error",
+      path: "$",
+      message: `Not valid JSON: ${(error as Error).message}`,
+    });
+    return failed();
+  }
+
+  if (!isObject(data)) {
+    issues.push({
+      level: "error",
+      path: "$",
+      message: "Expected a flow object",
+    });
+    return failed();
+  }
+
+  let source: FlowImportResult["source"];
+  let rawSteps: unknown[];
+
+  if (data.format === FLOW_BUNDLE_FORMAT) {
+    source = "bundle";
+    if (
+      data.version !== FLOW_BUNDLE_VERSION &&
+      !MIGRATED_BUNDLE_VERSIONS.includes(data.version)
+    ) {
+      issues.push({
+        level: "error",
+        path: "version",
+        message: `Unsupported bundle version ${JSON.stringify(data.version)}`,
+      });
+      return failed(source);
+    }
+    rawSteps = Array.isArray(data.steps)
+      ? [...data.steps].sort((a, b) => (a?.order ?? 0) - (b?.order ?? 0))
+      : [];
+  } else if (Array.isArray(data.steps) && "created_at" in data) {
+    source = "savedFlow";
+    rawSteps = data.steps;
+  } else if (data.version === "1.0" && Array.isArray(data.steps)) {
+    issues.push({
+      level: "error",
+      path: "version",
+      message:
+        "Version 1.0 exports do not contain field definitions and cannot be imported",
+    });
+    return failed();
+  } else {
+    issues.push({
+      level: "error",
+      path: "$",
+      message: "File is neither a flow bundle nor a saved flow",
+    });
+    return failed();
+  }
+
+  if (!Array.isArray(data.steps) || rawSteps.length === 0) {
+    issues.push({
+      level: "error",
+      path: "steps",
+      message: "Flow must contain at least one step",
+    });
+    return failed(source);
+  }
+  if (typeof data.name !== "string" || !data.name.trim()) {
+    issues.push({
+      level: "error",
+      path: "name",
+      message: "Flow name must be a non-empty string",
+    });
+  }
+
+  const takenFieldIds = new Set<string>();
+  const parsedSteps = rawSteps.map((raw, index) =>
+    parseStep(raw, index, takenFieldIds, issues)
+  );
+  if (issues.some((i) => i.level === "error")) {
+    return failed(source);
+  }
+
+  // Duplicate step IDs are renamed before rules that still target page
+  // names are converted, so each name maps to its page's final ID
+  const steps = migrateNavigationRules(parsedSteps as Step[]);
+  steps.forEach((step, index) => {
+    const originalId = (parsedSteps[index] as Step).id;
+    if (step.id !== originalId) {
+      issues.push({
+        level: "warning",
+        path: `steps[${index}].id`,
+        message: `Duplicate step ID "${originalId}" renamed to "${step.id}"`,
+      });
+    }
+  });
+
+  const now = new Date().toISOString();
+  let flowId =
+    source === "savedFlow" && typeof data.id === "string"
+      ? data.id
+      : Date.now().toString();
+  if (existingFlows.some((f) => f.id === flowId)) {
+    flowId = uniqueId(
+      `${flowId}_import`,
+      new Set(existingFlows.map((f) => f.id))
+    );
+    issues.push({
+      level: "warning",
+      path: "id",
+      message: `A saved flow already uses this ID; the import was given "${flowId}"`,
+    });
+  }
+
+  let name = data.name.trim();
+  if (existingFlows.some((f) => f.name === name)) {
+    const takenNames = new Set(existingFlows.map((f) => f.name));
+    const importedName = uniqueId(`${name} (imported)`, takenNames);
+    issues.push({
+      level: "warning",
+      path: "name",
+      message: `A saved flow is already named "${name}"; imported as "${importedName}"`,
+    });
+    name = importedName;
+  }
+
+  return {
+    flow: {
+      id: flowId,
+      name,
+      description:
+        typeof data.description === "string"
+          ? data.description
+          : `Flow with ${steps.length} pages`,
+      steps,
+      created_at: typeof data.created_at === "string" ? data.created_at : now,
+      updated_at: now,
+    },
+    source,
+    issues,
+  };
+};
@@ -0,0 +1,99 @@
+import {
+  checkExpression,
+  evaluateExpression,
+  getReferencedFieldIds,
+} from "./expression";
+import { flattenFields } from "./fields";
+import type { FormField, Step, StepAnswers } from "./types";
+
+// Answers a formula can read: earlier pages first, the current page on top.
+// Field IDs are unique across a flow, so pages do not overwrite each other.
+export const buildFormulaScope = (
+  previousAnswers: StepAnswers[],
+  answers: StepAnswers
+): StepAnswers => Object.assign({}, ...previousAnswers, answers);
+
+/**
+ * Value of a calculated field for the given answers, or null when the
+ * formula cannot be worked out (syntax error, missing inputs, division by
+ * zero). Numbers are rounded to the field's decimal places.
+ */
+export const evaluateFormula = (
+  field: FormField,
+  scope: StepAnswers
+): string | number | boolean | null => {
+  if (!field.formula?.trim()) return null;
+
+  let value: unknown;
+  try {
+    value = evaluateExpression(field.formula, scope);
+  } catch {
+    return null;
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    return field.precision !== undefined
+      ? Number(value.toFixed(field.precision))
+      : value;
+  }
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  return null;
+};
+
+/**
+ * A step's answers with every calculated field (group children included)
+ * filled in. Formulas may read other calculated fields, so evaluation
+ * repeats until the values settle; a cycle stops after a bounded number of
+ * passes.
+ */
+export const applyCalculatedFields = (
+  step: Step,
+  answers: StepAnswers,
+  previousAnswers: StepAnswers[] = []
+): StepAnswers => {
+  const calculated = flattenFields(step.fields).filter(
+    (field) => field.type === "calculated"
+  );
+  if (calculated.length === 0) return answers;
+
+  const result = { ...answers };
+  for (let pass = 0; pass <= calculated.length; pass++) {
+    let changed = false;
+    calculated.forEach((field) => {
+      // A field never sees its own previous value
+      const scope = buildFormulaScope(previousAnswers, result);
+      delete scope[field.id];
+      const value = evaluateFormula(field, scope);
+      if (result[field.id] !== value) {
+        result[field.id] = value;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  return result;
+};
+
+/**
+ * Problems with the formulas on a step. `flowFields` are the fields a
+ * formula may refer to - pass every field of the flow to allow references
+ * to other pages; defaults to the step's own fields.
+ */
+export const checkStepFormulas = (
+  step: Step,
+  flowFields: FormField[] = step.fields
+): string[] =>
+  flattenFields(step.fields)
+    .filter((field) => field.type === "calculated")
+    .flatMap((field) => {
+      const formula = field.formula?.trim();
+      if (!formula) return [`"${field.title}" needs a formula`];
+
+      if (getReferencedFieldIds(formula).includes(field.id)) {
+        return [`"${field.title}" formula cannot refer to itself`];
+      }
+      return checkExpression(formula, flowFields).errors.map(
+        (error) => `"${field.title}" formula: ${error}`
+      );
+    });
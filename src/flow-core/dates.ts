@@ -0,0 +1,61 @@
+import type { FormFieldType } from "./types";
+
+// Answer formats used by the date, time and datetime inputs. Values in the
+// same format compare correctly as plain strings.
+export const DATE_VALUE_PATTERNS: Partial<Record<FormFieldType, RegExp>> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}(:\d{2})?$/,
+  datetime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/,
+};
+
+// "today", "today+7", "today-30" (days) or "now"
+const RELATIVE_DATE_PATTERN = /^(today|now)\s*(?:([+-])\s*(\d+))?$/;
+
+export const DATE_FORMAT_HINTS: Partial<Record<FormFieldType, string>> = {
+  date: "YYYY-MM-DD, today, today+7",
+  time: "HH:MM or now",
+  datetime: "YYYY-MM-DDTHH:MM, now, today+1",
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTime = (date: Date) =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const isDateValue = (type: FormFieldType, value: unknown): boolean =>
+  typeof value === "string" && !!DATE_VALUE_PATTERNS[type]?.test(value);
+
+export const isRelativeDateValue = (value: unknown): boolean =>
+  typeof value === "string" && RELATIVE_DATE_PATTERN.test(value.trim());
+
+/**
+ * Turn an absolute or relative date value into the input format for `type`,
+ * in local time. Returns null when the value means nothing for that type
+ * (e.g. "today+1" on a time field).
+ */
+export const resolveDateValue = (
+  type: FormFieldType,
+  value: string,
+  now: Date = new Date()
+): string | null => {
+  if (isDateValue(type, value)) return value;
+
+  const match = RELATIVE_DATE_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, base, sign, amount] = match;
+  if (type === "time") {
+    return base === "now" && !sign ? formatTime(now) : null;
+  }
+
+  const date = new Date(now);
+  if (amount) {
+    date.setDate(date.getDate() + (sign === "-" ? -1 : 1) * Number(amount));
+  }
+
+  if (type === "date") return formatDate(date);
+  return `${formatDate(date)}T${base === "now" ? formatTime(date) : "00:00"}`;
+};
@@ -0,0 +1,925 @@
+import { flattenFields } from "./fields";
+import type {
+  FormField,
+  FormFieldType,
+  StepAnswers,
+  StepValidationResult,
+} from "./types";
+
+/**
+ * Sandboxed expression language used by summaryCheckExpression and the
+ * generated navigation expressions. It is a small subset of JavaScript, so
+ * exported expressions mean the same thing to a backend that evals them:
+ *
+ *   literals       'text'  "text"  42  1.5  true  false  null  ['a', 'b']
+ *   answers        formData.fieldId  formData['field id']
+ *   operators      ! - * / % + < <= > >= === !== && || ?:
+ *   members        value.length  value.includes(x)
+ *
+ * Nothing else is reachable - no globals, no function calls other than
+ * `includes`, and no property access other than the ones above.
+ */
+
+export type ExpressionNode =
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "array"; elements: ExpressionNode[] }
+  | { type: "field"; fieldId: string }
+  | { type: "unary"; operator: "!" | "-"; argument: ExpressionNode }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "logical";
+      operator: "&&" | "||";
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "conditional";
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { type: "length"; object: ExpressionNode }
+  | { type: "includes"; object: ExpressionNode; argument: ExpressionNode };
+
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "==="
+  | "!==";
+
+// Static type of an expression; "any" when it cannot be known up front
+export type ExpressionType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  | "null"
+  | "any";
+
+export class ExpressionError extends Error {
+  // Offset into the source where the problem was found, if known
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+// Tokenizer
+
+interface Token {
+  kind: "number" | "string" | "identifier" | "punctuator" | "end";
+  value: string;
+  position: number;
+}
+
+// Longest first, so "===" wins over "=="
+const PUNCTUATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "?",
+  ":",
+  ".",
+  ",",
+  "(",
+  ")",
+  "[",
+  "]",
+];
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(index))!;
+      tokens.push({ kind: "number", value: match[0], position: start });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index))!;
+      tokens.push({ kind: "identifier", value: match[0], position: start });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = "";
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\") {
+          const escaped = source[index + 1];
+          const hex = source.slice(index + 2, index + 6);
+          if (escaped === "u" && /^[0-9a-fA-F]{4}$/.test(hex)) {
+            value += String.fromCharCode(parseInt(hex, 16));
+            index += 6;
+            continue;
+          }
+          if (!(escaped in STRING_ESCAPES)) {
+            throw new ExpressionError(
+              `Unsupported escape "\\${escaped ?? ""}"`,
+              index
+            );
+          }
+          value += STRING_ESCAPES[escaped];
+          index += 2;
+          continue;
+        }
+        value += source[index++];
+      }
+      if (index >= source.length) {
+        throw new ExpressionError("Unterminated string", start);
+      }
+      index++;
+      tokens.push({ kind: "string", value, position: start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, index));
+    if (!punctuator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, start);
+    }
+    if (punctuator === "==" || punctuator === "!=") {
+      throw new ExpressionError(
+        `Use "${punctuator}=" instead of "${punctuator}"`,
+        start
+      );
+    }
+    tokens.push({ kind: "punctuator", value: punctuator, position: start });
+    index += punctuator.length;
+  }
+
+  tokens.push({ kind: "end", value: "", position: source.length });
+  return tokens;
+};
+
+// Parser (recursive descent, lowest precedence first)
+
+const BINARY_PRECEDENCE: BinaryOperator[][] = [
+  ["===", "!=="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+  const isPunctuator = (value: string) =>
+    peek().kind === "punctuator" && peek().value === value;
+
+  const describe = (token: Token) =>
+    token.kind === "end" ? "end of expression" : `"${token.value}"`;
+
+  const expect = (value: string) => {
+    const token = next();
+    if (token.kind !== "punctuator" || token.value !== value) {
+      throw new ExpressionError(
+        `Expected "${value}" but found ${describe(token)}`,
+        token.position
+      );
+    }
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseLogical(0);
+    if (!isPunctuator("?")) return test;
+
+    next();
+    const consequent = parseConditional();
+    expect(":");
+    const alternate = parseConditional();
+    return { type: "conditional", test, consequent, alternate };
+  };
+
+  // Level 0 is ||, level 1 is &&
+  const parseLogical = (level: number): ExpressionNode => {
+    const operator = level === 0 ? "||" : "&&";
+    const parseOperand = () => (level === 0 ? parseLogical(1) : parseBinary(0));
+
+    let left = parseOperand();
+    while (isPunctuator(operator)) {
+      next();
+      left = { type: "logical", operator, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === BINARY_PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (
+      peek().kind === "punctuator" &&
+      (BINARY_PRECEDENCE[level] as string[]).includes(peek().value)
+    ) {
+      const operator = next().value as BinaryOperator;
+      left = { type: "binary", operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isPunctuator("!") || isPunctuator("-")) {
+      const operator = next().value as "!" | "-";
+      return { type: "unary", operator, argument: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+
+    while (isPunctuator(".")) {
+      next();
+      const property = next();
+      if (property.kind !== "identifier") {
+        throw new ExpressionError(
+          `Expected a property name but found ${describe(property)}`,
+          property.position
+        );
+      }
+
+      if (property.value === "length") {
+        node = { type: "length", object: node };
+      } else if (property.value === "includes") {
+        expect("(");
+        const argument = parseConditional();
+        expect(")");
+        node = { type: "includes", object: node, argument };
+      } else {
+        throw new ExpressionError(
+          `Unsupported property "${property.value}" (only .length and .includes() are allowed)`,
+          property.position
+        );
+      }
+    }
+
+    return node;
+  };
+
+  const parseFieldAccess = (): ExpressionNode => {
+    if (isPunctuator(".")) {
+      next();
+      const name = next();
+      if (name.kind !== "identifier") {
+        throw new ExpressionError(
+          `Expected a field ID after "formData." but found ${describe(name)}`,
+          name.position
+        );
+      }
+      return { type: "field", fieldId: name.value };
+    }
+
+    if (isPunctuator("[")) {
+      next();
+      const name = next();
+      if (name.kind !== "string") {
+        throw new ExpressionError(
+          "formData[...] only accepts a quoted field ID",
+          name.position
+        );
+      }
+      expect("]");
+      return { type: "field", fieldId: name.value };
+    }
+
+    throw new ExpressionError(
+      'Use "formData.fieldId" to read an answer',
+      peek().position
+    );
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    switch (token.kind) {
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "string":
+        return { type: "literal", value: token.value };
+      case "identifier":
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        if (token.value === "formData") return parseFieldAccess();
+        throw new ExpressionError(
+          `Unknown name "${token.value}" (answers are read with formData.${token.value})`,
+          token.position
+        );
+      case "punctuator":
+        if (token.value === "(") {
+          const inner = parseConditional();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const elements: ExpressionNode[] = [];
+          while (!isPunctuator("]")) {
+            elements.push(parseConditional());
+            if (!isPunctuator("]")) expect(",");
+          }
+          next();
+          return { type: "array", elements };
+        }
+        break;
+      case "end":
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+  };
+
+  const ast = parseConditional();
+  if (peek().kind !== "end") {
+    throw new ExpressionError(
+      `Unexpected ${describe(peek())}`,
+      peek().position
+    );
+  }
+  return ast;
+};
+
+// Emitting
+
+const PLAIN_IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Single-quoted string literal that round-trips through parseExpression
+export const quoteString = (value: string): string => {
+  const escaped = Array.from(value, (char) => {
+    if (char === "\\" || char === "'") return `\\${char}`;
+    if (char === "\n") return "\\n";
+    if (char === "\r") return "\\r";
+    if (char === "\t") return "\\t";
+    // Other control characters and JS line separators
+    if (char < " " || char === "\u2028" || char === "\u2029") {
+      return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+    return char;
+  });
+  return `'${escaped.join("")}'`;
+};
+
+// Answer accessor; IDs that are not plain identifiers use bracket access
+export const fieldAccessor = (fieldId: string): string =>
+  PLAIN_IDENTIFIER.test(fieldId)
+    ? `formData.${fieldId}`
+    : `formData[${quoteString(fieldId)}]`;
+
+// Binding strength of each node, used to decide where parentheses go
+const precedenceOf = (node: ExpressionNode): number => {
+  switch (node.type) {
+    case "conditional":
+      return 1;
+    case "logical":
+      return node.operator === "||" ? 2 : 3;
+    case "binary": {
+      const level = BINARY_PRECEDENCE.findIndex((ops) =>
+        ops.includes(node.operator)
+      );
+      return 4 + level;
+    }
+    case "unary":
+      return 8;
+    case "literal":
+      return typeof node.value === "number" && node.value < 0 ? 8 : 10;
+    case "length":
+    case "includes":
+      return 9;
+    default:
+      return 10;
+  }
+};
+
+/**
+ * Turn an AST back into source text. Strings are quoted and field IDs are
+ * bracketed as needed, so any option value or step name produces a valid
+ * expression that parses back to the same tree.
+ */
+export const printExpression = (node: ExpressionNode): string => {
+  const print = (child: ExpressionNode, minPrecedence: number): string => {
+    const text = printNode(child);
+    return precedenceOf(child) < minPrecedence ? `(${text})` : text;
+  };
+
+  const printNode = (current: ExpressionNode): string => {
+    switch (current.type) {
+      case "literal":
+        return typeof current.value === "string"
+          ? quoteString(current.value)
+          : String(current.value);
+      case "array":
+        return `[${current.elements.map((e) => print(e, 1)).join(", ")}]`;
+      case "field":
+        return fieldAccessor(current.fieldId);
+      case "unary": {
+        const argument = print(current.argument, 8);
+        // Keep "- -x" apart so it does not read as a decrement
+        return argument.startsWith("-") && current.operator === "-"
+          ? `- ${argument}`
+          : `${current.operator}${argument}`;
+      }
+      case "binary": {
+        const precedence = precedenceOf(current);
+        return `${print(current.left, precedence)} ${current.operator} ${print(
+          current.right,
+          precedence + 1
+        )}`;
+      }
+      case "logical": {
+        const precedence = precedenceOf(current);
+        return `${print(current.left, precedence)} ${current.operator} ${print(
+          current.right,
+          precedence + 1
+        )}`;
+      }
+      case "conditional":
+        return `${print(current.test, 2)} ? ${print(
+          current.consequent,
+          1
+        )} : ${print(current.alternate, 1)}`;
+      case "length":
+        return `${print(current.object, 9)}.length`;
+      case "includes":
+        return `${print(current.object, 9)}.includes(${print(
+          current.argument,
+          1
+        )})`;
+    }
+  };
+
+  return printNode(node);
+};
+
+// Identifiers
+
+// Names that resolve to something other than an answer in plain JavaScript
+const RESERVED_IDENTIFIERS = new Set([
+  "__proto__",
+  "constructor",
+  "prototype",
+  "hasOwnProperty",
+  "toString",
+  "valueOf",
+  "formData",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "NaN",
+  "Infinity",
+  "this",
+  "new",
+  "delete",
+  "typeof",
+  "void",
+  "in",
+  "instanceof",
+  "function",
+  "class",
+  "return",
+  "var",
+  "let",
+  "const",
+  "import",
+  "export",
+]);
+
+/**
+ * Why a field ID is unsafe to export, or null when it is fine. Exported IDs
+ * become JSON Schema property names and expression accessors, so they are
+ * limited to plain identifiers.
+ */
+export const getIdentifierProblem = (id: string): string | null => {
+  if (!id) return "ID is empty";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(id)) {
+    return `ID "${id}" may only use letters, numbers and underscores, and cannot start with a number`;
+  }
+  if (RESERVED_IDENTIFIERS.has(id)) {
+    return `ID "${id}" is a reserved name`;
+  }
+  return null;
+};
+
+// Field IDs an expression reads, in order of first use ([] if it does not
+// parse)
+export const getReferencedFieldIds = (source: string): string[] => {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch {
+    return [];
+  }
+
+  const ids = new Set<string>();
+  const visit = (node: ExpressionNode): void => {
+    switch (node.type) {
+      case "field":
+        ids.add(node.fieldId);
+        break;
+      case "array":
+        node.elements.forEach(visit);
+        break;
+      case "unary":
+        visit(node.argument);
+        break;
+      case "binary":
+      case "logical":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "conditional":
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case "length":
+        visit(node.object);
+        break;
+      case "includes":
+        visit(node.object);
+        visit(node.argument);
+        break;
+    }
+  };
+  visit(ast);
+  return Array.from(ids);
+};
+
+/**
+ * The expression with answers of `fieldId` read from `newId` instead, e.g.
+ * after the field is renamed. Expressions that do not read the field, or do
+ * not parse, are returned unchanged; the others are printed again.
+ */
+export const renameExpressionField = (
+  source: string,
+  fieldId: string,
+  newId: string
+): string => {
+  if (!getReferencedFieldIds(source).includes(fieldId)) return source;
+
+  const rename = (node: ExpressionNode): ExpressionNode => {
+    switch (node.type) {
+      case "literal":
+        return node;
+      case "field":
+        return node.fieldId === fieldId ? { ...node, fieldId: newId } : node;
+      case "array":
+        return { ...node, elements: node.elements.map(rename) };
+      case "unary":
+        return { ...node, argument: rename(node.argument) };
+      case "binary":
+      case "logical":
+        return { ...node, left: rename(node.left), right: rename(node.right) };
+      case "conditional":
+        return {
+          ...node,
+          test: rename(node.test),
+          consequent: rename(node.consequent),
+          alternate: rename(node.alternate),
+        };
+      case "length":
+        return { ...node, object: rename(node.object) };
+      case "includes":
+        return {
+          ...node,
+          object: rename(node.object),
+          argument: rename(node.argument),
+        };
+    }
+  };
+  return printExpression(rename(parseExpression(source)));
+};
+
+// Type checking
+
+// Type of the answer each field type produces (null = not answerable)
+const FIELD_ANSWER_TYPES: Record<FormFieldType, ExpressionType | null> = {
+  title: null,
+  text: "string",
+  textarea: "string",
+  select: "string",
+  radio: "string",
+  checkbox: "array",
+  file: "any",
+  readonly: "string",
+  number: "number",
+  integer: "number",
+  date: "string",
+  time: "string",
+  datetime: "string",
+  signature: "string",
+  repeater: "array",
+  group: null,
+  calculated: "any",
+};
+
+export const getFieldAnswerType = (field: FormField): ExpressionType | null =>
+  field.type in FIELD_ANSWER_TYPES ? FIELD_ANSWER_TYPES[field.type] : "any";
+
+const typeOfLiteral = (
+  value: string | number | boolean | null
+): ExpressionType =>
+  value === null ? "null" : (typeof value as "string" | "number" | "boolean");
+
+// Same type when both sides agree, otherwise unknown
+const unify = (a: ExpressionType, b: ExpressionType): ExpressionType =>
+  a === b ? a : "any";
+
+const isOneOf = (type: ExpressionType, allowed: ExpressionType[]) =>
+  type === "any" || allowed.includes(type);
+
+/**
+ * Parse an expression and check it against the answerable `fields` (fields
+ * inside groups included).
+ * Reports syntax errors, unknown field IDs and operators applied to values
+ * of the wrong type.
+ */
+export const checkExpression = (
+  source: string,
+  fields: FormField[]
+): StepValidationResult & { resultType: ExpressionType } => {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    const { message, position } = error as ExpressionError;
+    return {
+      valid: false,
+      errors: [
+        position === undefined
+          ? message
+          : `${message} (at character ${position + 1})`,
+      ],
+      resultType: "any",
+    };
+  }
+
+  const errors: string[] = [];
+  const scope = new Map<string, ExpressionType>();
+  flattenFields(fields).forEach((field) => {
+    const type = getFieldAnswerType(field);
+    if (type) scope.set(field.id, type);
+  });
+
+  const visit = (node: ExpressionNode): ExpressionType => {
+    switch (node.type) {
+      case "literal":
+        return typeOfLiteral(node.value);
+
+      case "array":
+        node.elements.forEach(visit);
+        return "array";
+
+      case "field": {
+        const type = scope.get(node.fieldId);
+        if (!type) {
+          errors.push(`Unknown field "${node.fieldId}"`);
+          return "any";
+        }
+        return type;
+      }
+
+      case "unary": {
+        const type = visit(node.argument);
+        if (node.operator === "!") return "boolean";
+        if (!isOneOf(type, ["number"])) {
+          errors.push(`Cannot negate a ${type}`);
+        }
+        return "number";
+      }
+
+      case "binary": {
+        const left = visit(node.left);
+        const right = visit(node.right);
+
+        switch (node.operator) {
+          case "===":
+          case "!==":
+            if (
+              left !== "any" &&
+              right !== "any" &&
+              left !== "null" &&
+              right !== "null" &&
+              left !== right
+            ) {
+              errors.push(`A ${left} is never equal to a ${right}`);
+            }
+            return "boolean";
+          case "<":
+          case "<=":
+          case ">":
+          case ">=":
+            if (
+              !isOneOf(left, ["number", "string"]) ||
+              !isOneOf(right, ["number", "string"])
+            ) {
+              errors.push(
+                `Operator ${node.operator} needs numbers or strings, not ${left} and ${right}`
+              );
+            }
+            return "boolean";
+          case "+":
+            if (
+              !isOneOf(left, ["number", "string"]) ||
+              !isOneOf(right, ["number", "string"])
+            ) {
+              errors.push(
+                `Operator + needs numbers or strings, not ${left} and ${right}`
+              );
+            }
+            if (left === "string" || right === "string") return "string";
+            return left === "number" && right === "number" ? "number" : "any";
+          default:
+            if (!isOneOf(left, ["number"]) || !isOneOf(right, ["number"])) {
+              errors.push(
+                `Operator ${node.operator} needs numbers, not ${left} and ${right}`
+              );
+            }
+            return "number";
+        }
+      }
+
+      case "logical":
+        return unify(visit(node.left), visit(node.right));
+
+      case "conditional":
+        visit(node.test);
+        return unify(visit(node.consequent), visit(node.alternate));
+
+      case "length": {
+        const type = visit(node.object);
+        if (!isOneOf(type, ["string", "array"])) {
+          errors.push(`.length needs a string or list, not a ${type}`);
+        }
+        return "number";
+      }
+
+      case "includes": {
+        const type = visit(node.object);
+        const argument = visit(node.argument);
+        if (!isOneOf(type, ["string", "array"])) {
+          errors.push(`.includes() needs a string or list, not a ${type}`);
+        } else if (type === "string" && !isOneOf(argument, ["string"])) {
+          errors.push(`Text .includes() needs a string, not a ${argument}`);
+        }
+        return "boolean";
+      }
+    }
+  };
+
+  const resultType = visit(ast);
+  return { valid: errors.length === 0, errors, resultType };
+};
+
+// Evaluation
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "list" : typeof value;
+
+/**
+ * Evaluate an expression against one step's answers with JavaScript
+ * semantics. Throws ExpressionError for syntax errors and for .length /
+ * .includes() on values that have neither.
+ */
+export const evaluateExpression = (
+  expression: string | ExpressionNode,
+  formData: StepAnswers
+): unknown => {
+  const evaluate = (node: ExpressionNode): any => {
+    switch (node.type) {
+      case "literal":
+        return node.value;
+
+      case "array":
+        return node.elements.map(evaluate);
+
+      case "field":
+        // Own properties only, so "constructor" and friends stay unreachable
+        return Object.prototype.hasOwnProperty.call(formData, node.fieldId)
+          ? formData[node.fieldId]
+          : undefined;
+
+      case "unary": {
+        const value = evaluate(node.argument);
+        return node.operator === "!" ? !value : -value;
+      }
+
+      case "binary": {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        switch (node.operator) {
+          case "+":
+            return left + right;
+          case "-":
+            return left - right;
+          case "*":
+            return left * right;
+          case "/":
+            return left / right;
+          case "%":
+            return left % right;
+          case "<":
+            return left < right;
+          case "<=":
+            return left <= right;
+          case ">":
+            return left > right;
+          case ">=":
+            return left >= right;
+          case "===":
+            return left === right;
+          case "!==":
+            return left !== right;
+        }
+        break;
+      }
+
+      case "logical":
+        return node.operator === "&&"
+          ? evaluate(node.left) && evaluate(node.right)
+          : evaluate(node.left) || evaluate(node.right);
+
+      case "conditional":
+        return evaluate(node.test)
+          ? evaluate(node.consequent)
+          : evaluate(node.alternate);
+
+      case "length": {
+        const value = evaluate(node.object);
+        if (typeof value === "string" || Array.isArray(value)) {
+          return value.length;
+        }
+        throw new ExpressionError(
+          `Cannot read .length of ${describeValue(value)}`
+        );
+      }
+
+      case "includes": {
+        const value = evaluate(node.object);
+        const argument = evaluate(node.argument);
+        if (Array.isArray(value)) return value.includes(argument);
+        if (typeof value === "string") return value.includes(argument);
+        throw new ExpressionError(
+          `Cannot call .includes() on ${describeValue(value)}`
+        );
+      }
+    }
+  };
+
+  return evaluate(
+    typeof expression === "string" ? parseExpression(expression) : expression
+  );
+};
@@ -0,0 +1,118 @@
+import type { FormField, FormFieldType } from "./types";
+
+// Every field type, keyed so the compiler flags a type missing from the list
+const FIELD_TYPE_LOOKUP: Record<FormFieldType, true> = {
+  title: true,
+  text: true,
+  textarea: true,
+  select: true,
+  radio: true,
+  checkbox: true,
+  file: true,
+  readonly: true,
+  number: true,
+  integer: true,
+  date: true,
+  time: true,
+  datetime: true,
+  signature: true,
+  repeater: true,
+  group: true,
+  calculated: true,
+};
+
+export const FORM_FIELD_TYPES = Object.keys(
+  FIELD_TYPE_LOOKUP
+) as FormFieldType[];
+
+export const isFormFieldType = (value: unknown): value is FormFieldType =>
+  typeof value === "string" && value in FIELD_TYPE_LOOKUP;
+
+// Field types whose answer is a number
+export const NUMERIC_FIELD_TYPES: FormFieldType[] = ["number", "integer"];
+
+// Field types whose answer is a date and/or time string
+export const DATE_FIELD_TYPES: FormFieldType[] = ["date", "time", "datetime"];
+
+// Field types that can be used as a repeater column or placed in a group
+export const REPEATER_COLUMN_TYPES: FormFieldType[] = FORM_FIELD_TYPES.filter(
+  (type) => !["title", "repeater", "group", "calculated"].includes(type)
+);
+export const GROUP_CHILD_TYPES = REPEATER_COLUMN_TYPES;
+
+/**
+ * A step's fields with every group followed by the fields inside it, in
+ * display order. Group children are answered under their own IDs, so this
+ * is the list to search when resolving a field ID. Repeater columns are not
+ * included; they are answered per row.
+ */
+export const flattenFields = (fields: FormField[]): FormField[] =>
+  fields.flatMap((field) =>
+    field.type === "group"
+      ? [field, ...flattenFields(field.fields || [])]
+      : [field]
+  );
+
+/**
+ * `base`, or `base2`, `base3`, ... when it is taken. Answers from every page
+ * share one scope, so `taken` should hold the field IDs of the whole flow
+ * (group children included).
+ */
+export const getUniqueFieldId = (base: string, taken: string[]): string => {
+  let id = base;
+  let counter = 2;
+  while (taken.includes(id)) {
+    id = `${base}${counter++}`;
+  }
+  return id;
+};
+
+// The group a field sits in, if any
+export const findParentGroup = (
+  fieldId: string,
+  fields: FormField[]
+): FormField | undefined =>
+  flattenFields(fields).find(
+    (f) =>
+      f.type === "group" &&
+      (f.fields || []).some((child) => child.id === fieldId)
+  );
+
+// Field types whose answer is free text (length and pattern rules apply)
+export const TEXT_FIELD_TYPES: FormFieldType[] = ["text", "textarea"];
+
+// Field types whose answer is picked from `options`
+export const CHOICE_FIELD_TYPES: FormFieldType[] = [
+  "select",
+  "radio",
+  "checkbox",
+];
+
+export const getDefaultWidget = (type: string): string => {
+  const widgets: Record<string, string> = {
+    text: "text",
+    textarea: "textarea",
+    select: "select",
+    radio: "radio",
+    checkbox: "checkboxes",
+    file: "file",
+    readonly: "textarea",
+    number: "updown",
+    integer: "updown",
+    date: "date",
+    time: "time",
+    datetime: "datetime",
+    signature: "signature",
+    repeater: "table",
+    group: "group",
+    calculated: "calculated",
+  };
+  return widgets[type] || "text";
+};
+
+// No answer given: nothing entered, nothing picked, no rows or files
+export const isEmptyAnswer = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
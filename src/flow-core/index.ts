@@ -0,0 +1,16 @@
+// Headless flow model: pure functions over Step[] / SavedFlow with no React
+// or browser dependencies, shared by the designer, runners and backends.
+export * from "./types";
+export * from "./fields";
+export * from "./template";
+export * from "./dates";
+export * from "./expression";
+export * from "./visibility";
+export * from "./references";
+export * from "./validation";
+export * from "./navigation";
+export * from "./lint";
+export * from "./simulate";
+export * from "./calculated";
+export * from "./schema";
+export * from "./bundle";
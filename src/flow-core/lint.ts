@@ -0,0 +1,347 @@
+import { checkStepFormulas } from "./calculated";
+import { CHOICE_FIELD_TYPES, findParentGroup, flattenFields } from "./fields";
+import { getReferencedFieldIds } from "./expression";
+import {
+  getDeadEndStepIds,
+  getReachableStepIds,
+  getStepDominators,
+  isNavigationKeyword,
+} from "./navigation";
+import type {
+  ConditionGroup,
+  ConditionOperator,
+  FieldCondition,
+  FormField,
+  Step,
+} from "./types";
+import { validateStepDefinition } from "./validation";
+import {
+  getConditionFieldIds,
+  getVisibilityCondition,
+  isConditionGroup,
+} from "./visibility";
+
+// Operators whose values are meant to be options of the field they read
+const OPTION_OPERATORS: ConditionOperator[] = [
+  "equals",
+  "notEquals",
+  "in",
+  "contains",
+];
+
+export interface FlowLintIssue {
+  level: "error" | "warning";
+  message: string;
+  // Where the problem lives, so the designer can jump to it
+  stepId: string;
+  fieldId?: string;
+}
+
+// Navigation targets that are neither keywords nor existing pages
+const lintNavigationTargets = (step: Step, steps: Step[]): FlowLintIssue[] => {
+  const rule = step.navigationRule;
+  if (!rule || !rule.fieldId) return [];
+
+  const targets = [
+    ...rule.conditions.map((cond) => cond.nextStepId),
+    rule.defaultStepId || "continue",
+  ];
+  return [...new Set(targets)]
+    .filter(
+      (target) =>
+        !isNavigationKeyword(target) && !steps.some((s) => s.id === target)
+    )
+    .map((target) => ({
+      level: "error",
+      message: `Navigation goes to "${target}", which is not a page in this flow`,
+      stepId: step.id,
+      fieldId: rule.fieldId,
+    }));
+};
+
+// Rules and conditions that point at fields or options that are gone. Both
+// may read fields from any page.
+const lintRuleOptions = (
+  step: Step,
+  flowFields: FormField[]
+): FlowLintIssue[] => {
+  const issues: FlowLintIssue[] = [];
+  const available = flattenFields(flowFields);
+  const findField = (id: string) => available.find((f) => f.id === id);
+  const isStaleOption = (field: FormField, value: string) =>
+    CHOICE_FIELD_TYPES.includes(field.type) &&
+    !(field.options || []).includes(value);
+
+  const rule = step.navigationRule;
+  if (rule && rule.fieldId) {
+    const field = findField(rule.fieldId);
+    if (!field) {
+      issues.push({
+        level: "error",
+        message: `Navigation depends on "${rule.fieldId}", which does not exist`,
+        stepId: step.id,
+      });
+    } else {
+      rule.conditions
+        .filter((cond) => isStaleOption(field, cond.value))
+        .forEach((cond) =>
+          issues.push({
+            level: "warning",
+            message: `Navigation rule checks "${cond.value}", which is no longer an option of "${field.title}"`,
+            stepId: step.id,
+            fieldId: field.id,
+          })
+        );
+    }
+  }
+
+  // Missing fields and operators are reported by validateStepDefinition
+  flattenFields(step.fields).forEach((field) => {
+    const condition = getVisibilityCondition(field, flowFields);
+    if (!condition) return;
+
+    const visit = (item: FieldCondition | ConditionGroup) => {
+      if (isConditionGroup(item)) {
+        item.conditions.forEach(visit);
+        return;
+      }
+      const parent = findField(item.fieldId);
+      if (!parent || !OPTION_OPERATORS.includes(item.operator)) return;
+
+      const values = Array.isArray(item.value) ? item.value : [item.value];
+      values
+        .filter((value): value is string => !!value)
+        .filter((value) => isStaleOption(parent, value))
+        .forEach((value) =>
+          issues.push({
+            level: "warning",
+            message: `"${field.title}" checks "${parent.title}" for "${value}", which is no longer an option`,
+            stepId: step.id,
+            fieldId: field.id,
+          })
+        );
+    };
+    condition.conditions.forEach(visit);
+  });
+
+  return issues;
+};
+
+// Fields whose visibility ends up depending on themselves. A field waits on
+// the fields its conditions read and on its parent group, so both count as
+// edges. A field that reads itself is reported by validateStepDefinition.
+const lintDependencyCycles = (step: Step): FlowLintIssue[] => {
+  const fields = flattenFields(step.fields);
+  const dependencies = (field: FormField): string[] => {
+    const condition = getVisibilityCondition(field, step.fields);
+    return [
+      ...(condition ? getConditionFieldIds(condition) : []),
+      findParentGroup(field.id, step.fields)?.id,
+    ].filter(
+      (id): id is string =>
+        !!id && id !== field.id && fields.some((f) => f.id === id)
+    );
+  };
+
+  const issues: FlowLintIssue[] = [];
+  const done = new Set<string>();
+  const reported = new Set<string>();
+
+  const visit = (fieldId: string, path: string[]) => {
+    const cycleStart = path.indexOf(fieldId);
+    if (cycleStart !== -1) {
+      const cycle = path.slice(cycleStart);
+      if (cycle.some((id) => reported.has(id))) return;
+      cycle.forEach((id) => reported.add(id));
+
+      const titles = [...cycle, fieldId].map(
+        (id) => `"${fields.find((f) => f.id === id)?.title ?? id}"`
+      );
+      issues.push({
+        level: "error",
+        message: `Visibility conditions form a loop: ${titles.join(" → ")}`,
+        stepId: step.id,
+        fieldId,
+      });
+      return;
+    }
+    if (done.has(fieldId)) return;
+
+    const field = fields.find((f) => f.id === fieldId);
+    if (field) {
+      dependencies(field).forEach((id) => visit(id, [...path, fieldId]));
+    }
+    done.add(fieldId);
+  };
+
+  fields.forEach((field) => visit(field.id, []));
+  return issues;
+};
+
+// Answers read from another page must be given on every route to the page
+// that reads them: conditions, branching and formulas that read a later page,
+// or one a branch can skip, see no answer.
+const lintCrossStepReferences = (steps: Step[]): FlowLintIssue[] => {
+  const dominators = getStepDominators(steps);
+  const owners = new Map<string, Step>();
+  steps.forEach((step) =>
+    flattenFields(step.fields).forEach((field) => {
+      if (!owners.has(field.id)) owners.set(field.id, step);
+    })
+  );
+  const flowFields = steps.flatMap((step) => step.fields);
+
+  return steps.flatMap((step) => {
+    const safe = dominators.get(step.id);
+    // Unreachable pages are reported separately
+    if (!safe) return [];
+
+    const readers: { name: string; fieldId?: string; reads: string[] }[] =
+      flattenFields(step.fields).map((field) => {
+        const condition = getVisibilityCondition(field, flowFields);
+        return {
+          name: `"${field.title}"`,
+          fieldId: field.id,
+          reads: [
+            ...(condition ? getConditionFieldIds(condition) : []),
+            ...(field.type === "calculated"
+              ? getReferencedFieldIds(field.formula || "")
+              : []),
+          ],
+        };
+      });
+    if (step.navigationRule?.fieldId) {
+      readers.push({
+        name: "Navigation",
+        reads: [step.navigationRule.fieldId],
+      });
+    }
+
+    return readers.flatMap(({ name, fieldId, reads }) =>
+      [...new Set(reads)].flatMap((id): FlowLintIssue[] => {
+        const owner = owners.get(id);
+        if (!owner || owner.id === step.id || safe.has(owner.id)) return [];
+        return [
+          {
+            level: "error",
+            message: `${name} reads "${id}" from "${owner.name}", which is not answered on every route to this page`,
+            stepId: step.id,
+            fieldId,
+          },
+        ];
+      })
+    );
+  });
+};
+
+/**
+ * Checks the whole flow at once: everything validateStepDefinition reports
+ * per page, plus problems that only show up across pages - field IDs reused
+ * on other pages, navigation to missing or unreachable pages, answers read
+ * before they are given, pages that can never finish the form, visibility
+ * loops and rules left pointing at deleted options.
+ */
+export const lintFlow = (steps: Step[]): FlowLintIssue[] => {
+  const issues: FlowLintIssue[] = [];
+  const flowFields = steps.flatMap((step) => step.fields);
+
+  if (steps.length === 0) return issues;
+
+  steps.forEach((step, index) => {
+    if (!step.name?.trim()) {
+      issues.push({
+        level: "error",
+        message: `Page ${index + 1} needs a name`,
+        stepId: step.id,
+      });
+    } else if (steps.findIndex((s) => s.name === step.name) !== index) {
+      // Navigation goes by page ID, so only readers are confused by this
+      issues.push({
+        level: "warning",
+        message: `Page name "${step.name}" is used more than once`,
+        stepId: step.id,
+      });
+    }
+
+    if (isNavigationKeyword(step.id)) {
+      issues.push({
+        level: "error",
+        message: `Page ID "${step.id}" is reserved for navigation`,
+        stepId: step.id,
+      });
+    } else if (steps.findIndex((s) => s.id === step.id) !== index) {
+      issues.push({
+        level: "error",
+        message: `Page ID "${step.id}" is used by another page`,
+        stepId: step.id,
+      });
+    }
+
+    if (step.fields.length === 0) {
+      issues.push({
+        level: "warning",
+        message: "Page has no fields",
+        stepId: step.id,
+      });
+    }
+
+    // Formulas may read fields from any page; both checks report a missing
+    // formula, so repeated messages are dropped
+    new Set([
+      ...validateStepDefinition(step, flowFields).errors,
+      ...checkStepFormulas(step, flowFields),
+    ]).forEach((message) =>
+      issues.push({ level: "error", message, stepId: step.id })
+    );
+
+    issues.push(
+      ...lintNavigationTargets(step, steps),
+      ...lintRuleOptions(step, flowFields),
+      ...lintDependencyCycles(step)
+    );
+  });
+
+  // Answers from all pages end up in one submission, so an ID may only be
+  // used on one page (repeats within a page are reported above)
+  const firstPage = new Map<string, Step>();
+  steps.forEach((step) => {
+    new Set(flattenFields(step.fields).map((f) => f.id)).forEach((id) => {
+      const owner = firstPage.get(id);
+      if (!owner) {
+        firstPage.set(id, step);
+        return;
+      }
+      issues.push({
+        level: "error",
+        message: `Field ID "${id}" is also used on "${owner.name}"`,
+        stepId: step.id,
+        fieldId: id,
+      });
+    });
+  });
+
+  issues.push(...lintCrossStepReferences(steps));
+
+  const reachable = getReachableStepIds(steps);
+  const deadEnds = getDeadEndStepIds(steps);
+  steps.forEach((step) => {
+    if (!reachable.has(step.id)) {
+      issues.push({
+        level: "warning",
+        message: "No navigation path leads to this page",
+        stepId: step.id,
+      });
+    } else if (deadEnds.has(step.id)) {
+      issues.push({
+        level: "warning",
+        message: "No route from this page reaches the end of the form",
+        stepId: step.id,
+      });
+    }
+  });
+
+  // Page order, so the list reads top to bottom like the flow
+  const pageIndex = (issue: FlowLintIssue) =>
+    steps.findIndex((step) => step.id === issue.stepId);
+  return issues.sort((a, b) => pageIndex(a) - pageIndex(b));
+};
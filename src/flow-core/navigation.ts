@@ -0,0 +1,375 @@
+import { printExpression, type ExpressionNode } from "./expression";
+import { flattenFields, isEmptyAnswer } from "./fields";
+import type {
+  FormField,
+  NavigationEdge,
+  NavigationGraph,
+  NavigationOutcome,
+  NavigationRule,
+  Step,
+  StepAnswers,
+} from "./types";
+
+// Reserved navigation targets understood by resolveNextStep
+export const NAVIGATION_KEYWORDS = [
+  { value: "continue", label: "Continue to next page" },
+  { value: "skip", label: "Skip to last page" },
+  { value: "end", label: "End form" },
+];
+
+export const isNavigationKeyword = (target: string): boolean =>
+  NAVIGATION_KEYWORDS.some((k) => k.value === target);
+
+// Navigation rule conversion - builds the rule as an expression AST and
+// prints it, so option values and step IDs are always quoted safely.
+// Pass every field of the flow when the rule reads an earlier page.
+export const convertToExpression = (
+  rule: NavigationRule,
+  step: Step,
+  flowFields: FormField[] = step.fields
+): string => {
+  const continueTarget: ExpressionNode = { type: "literal", value: "continue" };
+  if (!rule.fieldId || !rule.conditions.length) {
+    return printExpression(continueTarget);
+  }
+
+  const field = flattenFields(flowFields).find(
+    (f: FormField) => f.id === rule.fieldId
+  );
+  if (!field) return printExpression(continueTarget);
+
+  const answer: ExpressionNode = { type: "field", fieldId: rule.fieldId };
+  const expression = rule.conditions.reduceRight<ExpressionNode>(
+    (alternate, cond) => {
+      const value: ExpressionNode = { type: "literal", value: cond.value };
+      return {
+        type: "conditional",
+        test:
+          field.type === "checkbox"
+            ? { type: "includes", object: answer, argument: value }
+            : { type: "binary", operator: "===", left: answer, right: value },
+        consequent: { type: "literal", value: cond.nextStepId },
+        alternate,
+      };
+    },
+    { type: "literal", value: rule.defaultStepId || "continue" }
+  );
+
+  return printExpression(expression);
+};
+
+// First condition matched by the answer (checkboxes match any checked option)
+export const findMatchingCondition = (
+  rule: NavigationRule,
+  field: FormField,
+  value: unknown
+): NavigationRule["conditions"][number] | undefined => {
+  if (field.type === "checkbox") {
+    const selectedValues = Array.isArray(value) ? value : [];
+    return rule.conditions.find((cond) => selectedValues.includes(cond.value));
+  }
+  return rule.conditions.find((cond) => cond.value === value);
+};
+
+// The target a step's rule picks for the given answers ("continue" if none).
+// A rule may branch on an earlier page's field; see resolveNextStep.
+export const getNavigationTarget = (
+  step: Step,
+  answers: StepAnswers,
+  flowFields: FormField[] = step.fields
+): string => {
+  const rule = step.navigationRule;
+  if (!rule || !rule.fieldId) return "continue";
+
+  const field = flattenFields(flowFields).find((f) => f.id === rule.fieldId);
+  const matched = field
+    ? findMatchingCondition(rule, field, answers[rule.fieldId])
+    : undefined;
+  return matched ? matched.nextStepId : rule.defaultStepId || "continue";
+};
+
+// Decide where "Next" leads from steps[stepIndex]. Rules may read earlier
+// pages, so `answers` should hold the answers of the route so far with the
+// current page's on top (see buildFormulaScope).
+export const resolveNextStep = (
+  steps: Step[],
+  stepIndex: number,
+  answers: StepAnswers
+): NavigationOutcome => {
+  const step = steps[stepIndex];
+  const rule = step?.navigationRule;
+  const flowFields = steps.flatMap((s) => s.fields);
+
+  if (rule && rule.fieldId) {
+    const field = flattenFields(flowFields).find((f) => f.id === rule.fieldId);
+    if (!field || isEmptyAnswer(answers[rule.fieldId])) {
+      return { type: "missingAnswer", fieldId: rule.fieldId };
+    }
+  }
+
+  const target = step
+    ? getNavigationTarget(step, answers, flowFields)
+    : "continue";
+
+  if (target === "continue") {
+    return stepIndex < steps.length - 1
+      ? { type: "goto", stepIndex: stepIndex + 1, target }
+      : { type: "complete" };
+  }
+  if (target === "end") return { type: "end" };
+  if (target === "skip") {
+    return { type: "goto", stepIndex: steps.length - 1, target };
+  }
+
+  const targetIndex = steps.findIndex((s: Step) => s.id === target);
+  return targetIndex !== -1
+    ? { type: "goto", stepIndex: targetIndex, target }
+    : { type: "missingTarget", target };
+};
+
+// Resolve a navigation target to the step it lands on (null = flow ends)
+export const resolveNavigationTarget = (
+  steps: Step[],
+  target: string,
+  fromIndex: number
+): string | null => {
+  if (target === "end") return null;
+  if (target === "continue") return steps[fromIndex + 1]?.id ?? null;
+  if (target === "skip") return steps[steps.length - 1]?.id ?? null;
+  return steps.some((s) => s.id === target) ? target : null;
+};
+
+// What the designer shows for a target: the keyword's label or the page name
+export const describeNavigationTarget = (
+  steps: Step[],
+  target: string
+): string =>
+  NAVIGATION_KEYWORDS.find((k) => k.value === target)?.label ??
+  steps.find((s) => s.id === target)?.name ??
+  `${target} (missing page)`;
+
+// Every route to `stepId` sent to `replacement` instead, e.g. when that page
+// is deleted. Steps without such routes are returned unchanged.
+export const retargetNavigationRules = (
+  steps: Step[],
+  stepId: string,
+  replacement = "continue"
+): Step[] =>
+  steps.map((step) => {
+    const rule = step.navigationRule;
+    if (
+      !rule ||
+      (rule.defaultStepId !== stepId &&
+        !rule.conditions.some((cond) => cond.nextStepId === stepId))
+    ) {
+      return step;
+    }
+    return {
+      ...step,
+      navigationRule: {
+        ...rule,
+        conditions: rule.conditions.map((cond) =>
+          cond.nextStepId === stepId
+            ? { ...cond, nextStepId: replacement }
+            : cond
+        ),
+        defaultStepId:
+          rule.defaultStepId === stepId ? replacement : rule.defaultStepId,
+      },
+    };
+  });
+
+// Rule shape saved before targets were step IDs
+interface LegacyNavigationRule {
+  fieldId: string;
+  conditions: Array<{
+    value: string;
+    nextStepId?: string;
+    nextStepName?: string;
+  }>;
+  defaultStepId?: string;
+  defaultStepName?: string;
+}
+
+// Later pages reusing an ID get _2, _3, ... appended. Routes by ID keep
+// going to the first page, as they did at runtime.
+const renameDuplicateStepIds = (steps: Step[]): Step[] => {
+  const taken = new Set<string>();
+  return steps.map((step) => {
+    let id = step.id;
+    let counter = 2;
+    while (taken.has(id)) {
+      id = `${step.id}_${counter++}`;
+    }
+    taken.add(id);
+    return id === step.id ? step : { ...step, id };
+  });
+};
+
+/**
+ * Prepares saved steps for ID-based navigation. Pages sharing an ID are
+ * renamed first (older designers reused IDs after a page was deleted), then
+ * rules saved with page-name targets (`nextStepName`, `defaultStepName`) are
+ * converted to the final step IDs. A name matching several pages goes to the
+ * first, as it did at runtime; names matching no page are kept so lintFlow
+ * reports them. Steps that need neither are returned unchanged.
+ */
+export const migrateNavigationRules = (savedSteps: Step[]): Step[] => {
+  const steps = renameDuplicateStepIds(savedSteps);
+  const toId = (name: string) =>
+    isNavigationKeyword(name)
+      ? name
+      : steps.find((s) => s.name === name)?.id ?? name;
+
+  return steps.map((step) => {
+    const rule = step.navigationRule as LegacyNavigationRule | undefined;
+    if (
+      !rule ||
+      (rule.defaultStepName === undefined &&
+        rule.conditions.every((cond) => cond.nextStepName === undefined))
+    ) {
+      return step;
+    }
+
+    const migrated: NavigationRule = {
+      fieldId: rule.fieldId,
+      conditions: rule.conditions.map((cond) => ({
+        value: cond.value,
+        nextStepId: cond.nextStepId ?? toId(cond.nextStepName ?? "continue"),
+      })),
+    };
+    const defaultTarget = rule.defaultStepId ?? rule.defaultStepName;
+    if (defaultTarget !== undefined) {
+      migrated.defaultStepId = rule.defaultStepId ?? toId(defaultTarget);
+    }
+    return { ...step, navigationRule: migrated };
+  });
+};
+
+// Every route out of every step, as edges between step IDs
+export const buildNavigationGraph = (steps: Step[]): NavigationGraph => {
+  const edges: NavigationEdge[] = steps.flatMap((step, index) => {
+    const rule = step.navigationRule;
+    if (!rule || !rule.fieldId) {
+      return [
+        {
+          from: step.id,
+          to: resolveNavigationTarget(steps, "continue", index),
+          target: "continue",
+        },
+      ];
+    }
+
+    const defaultTarget = rule.defaultStepId || "continue";
+    return [
+      ...rule.conditions.map((cond) => ({
+        from: step.id,
+        to: resolveNavigationTarget(steps, cond.nextStepId, index),
+        target: cond.nextStepId,
+        condition: { fieldId: rule.fieldId, value: cond.value },
+      })),
+      {
+        from: step.id,
+        to: resolveNavigationTarget(steps, defaultTarget, index),
+        target: defaultTarget,
+      },
+    ];
+  });
+
+  return { startStepId: steps[0]?.id ?? null, edges };
+};
+
+// Pages some route from the first page leads to
+export const getReachableStepIds = (steps: Step[]): Set<string> => {
+  const { startStepId, edges } = buildNavigationGraph(steps);
+  const reachable = new Set<string>(startStepId ? [startStepId] : []);
+  const queue = [...reachable];
+  while (queue.length > 0) {
+    const from = queue.shift()!;
+    edges
+      .filter(
+        (edge) => edge.from === from && edge.to && !reachable.has(edge.to)
+      )
+      .forEach((edge) => {
+        reachable.add(edge.to!);
+        queue.push(edge.to!);
+      });
+  }
+  return reachable;
+};
+
+// Pages from which no route finishes the form: every way on loops back or
+// goes to a page that does not exist
+export const getDeadEndStepIds = (steps: Step[]): Set<string> => {
+  const { edges } = buildNavigationGraph(steps);
+  const finishing = new Set(
+    edges
+      .filter((edge) => edge.to === null && isNavigationKeyword(edge.target))
+      .map((edge) => edge.from)
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    edges.forEach((edge) => {
+      if (edge.to && finishing.has(edge.to) && !finishing.has(edge.from)) {
+        finishing.add(edge.from);
+        changed = true;
+      }
+    });
+  }
+  return new Set(
+    steps.filter((step) => !finishing.has(step.id)).map((step) => step.id)
+  );
+};
+
+/**
+ * For each page reachable from the first, the pages every route to it passes
+ * through (itself included). A page can safely read answers from the pages
+ * in its set. Unreachable pages have no entry.
+ */
+export const getStepDominators = (steps: Step[]): Map<string, Set<string>> => {
+  const { startStepId, edges } = buildNavigationGraph(steps);
+  const dominators = new Map<string, Set<string>>();
+  if (!startStepId) return dominators;
+
+  // Reachable pages in breadth-first order
+  const order = [startStepId];
+  for (let i = 0; i < order.length; i++) {
+    edges
+      .filter((edge) => edge.from === order[i] && edge.to)
+      .forEach((edge) => {
+        if (!order.includes(edge.to!)) order.push(edge.to!);
+      });
+  }
+
+  const all = new Set(order);
+  order.forEach((id) =>
+    dominators.set(id, id === startStepId ? new Set([id]) : new Set(all))
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    order.slice(1).forEach((id) => {
+      const predecessors = [
+        ...new Set(
+          edges
+            .filter((edge) => edge.to === id && dominators.has(edge.from))
+            .map((edge) => edge.from)
+        ),
+      ];
+      const next = new Set(
+        [...all].filter((candidate) =>
+          predecessors.every((p) => dominators.get(p)!.has(candidate))
+        )
+      );
+      next.add(id);
+      if (next.size !== dominators.get(id)!.size) {
+        dominators.set(id, next);
+        changed = true;
+      }
+    });
+  }
+  return dominators;
+};
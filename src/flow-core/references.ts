@@ -0,0 +1,107 @@
+import { renameExpressionField } from "./expression";
+import { removeConditionField, renameConditionField } from "./visibility";
+import type { ConditionGroup, FormField, Step } from "./types";
+
+/**
+ * Every page with the references to `fieldIds` removed, e.g. after those
+ * fields were deleted: legacy dependsOn/showWhen pairs and visibleWhen
+ * conditions that read them (group children included), and navigation rules
+ * that branch on them. Formulas are left as they are; lintFlow reports the
+ * fields they read that no longer exist.
+ */
+export const removeFieldReferences = (
+  steps: Step[],
+  fieldIds: string[]
+): Step[] => {
+  if (fieldIds.length === 0) return steps;
+
+  const cleanField = (field: FormField): FormField => {
+    let cleaned = field;
+    if (cleaned.dependsOn && fieldIds.includes(cleaned.dependsOn)) {
+      cleaned = { ...cleaned, dependsOn: undefined, showWhen: undefined };
+    }
+    if (cleaned.visibleWhen) {
+      const visibleWhen = fieldIds.reduce<ConditionGroup | undefined>(
+        (group, id) => group && removeConditionField(group, id),
+        cleaned.visibleWhen
+      );
+      cleaned = { ...cleaned, visibleWhen };
+    }
+    if (cleaned.type === "group" && cleaned.fields) {
+      cleaned = { ...cleaned, fields: cleaned.fields.map(cleanField) };
+    }
+    return cleaned;
+  };
+
+  return steps.map((step) => {
+    const updatedStep: Step = { ...step, fields: step.fields.map(cleanField) };
+    if (
+      updatedStep.navigationRule &&
+      fieldIds.includes(updatedStep.navigationRule.fieldId)
+    ) {
+      delete updatedStep.navigationRule;
+    }
+    return updatedStep;
+  });
+};
+
+/**
+ * Every page with the field `fieldId` on step `stepId` (group children
+ * included) renamed to `newId`, and everything that reads its answer on any
+ * page pointed at the new ID: dependsOn, visibleWhen conditions, navigation
+ * rules, formulas and page checks. The caller makes sure `newId` is a safe
+ * identifier no other field uses (see getIdentifierProblem).
+ */
+export const renameField = (
+  steps: Step[],
+  stepId: string,
+  fieldId: string,
+  newId: string
+): Step[] => {
+  const updateField = (field: FormField, onStep: boolean): FormField => {
+    let updated = field;
+    if (onStep && updated.id === fieldId) {
+      updated = { ...updated, id: newId };
+    }
+    if (updated.dependsOn === fieldId) {
+      updated = { ...updated, dependsOn: newId };
+    }
+    if (updated.visibleWhen) {
+      updated = {
+        ...updated,
+        visibleWhen: renameConditionField(updated.visibleWhen, fieldId, newId),
+      };
+    }
+    if (updated.type === "calculated" && updated.formula) {
+      updated = {
+        ...updated,
+        formula: renameExpressionField(updated.formula, fieldId, newId),
+      };
+    }
+    if (updated.type === "group" && updated.fields) {
+      updated = {
+        ...updated,
+        fields: updated.fields.map((child) => updateField(child, onStep)),
+      };
+    }
+    return updated;
+  };
+
+  return steps.map((step) => {
+    const rule = step.navigationRule;
+    return {
+      ...step,
+      fields: step.fields.map((field) =>
+        updateField(field, step.id === stepId)
+      ),
+      summaryCheckExpression: renameExpressionField(
+        step.summaryCheckExpression,
+        fieldId,
+        newId
+      ),
+      ...(rule?.fieldId === fieldId && {
+        navigationRule: { ...rule, fieldId: newId },
+      }),
+    };
+  });
+};
@@ -0,0 +1,592 @@
+import { checkStepFormulas } from "./calculated";
+import { checkExpression, getIdentifierProblem } from "./expression";
+import {
+  DATE_VALUE_PATTERNS,
+  isDateValue,
+  isRelativeDateValue,
+  resolveDateValue,
+} from "./dates";
+import {
+  DATE_FIELD_TYPES,
+  NUMERIC_FIELD_TYPES,
+  TEXT_FIELD_TYPES,
+  findParentGroup,
+  flattenFields,
+  getDefaultWidget,
+} from "./fields";
+import { convertToExpression } from "./navigation";
+import { processTemplateValue } from "./template";
+import {
+  getConditionFieldIds,
+  getVisibilityCondition,
+  isConditionGroup,
+} from "./visibility";
+import type {
+  ConditionGroup,
+  FieldCondition,
+  FormField,
+  Step,
+  StepAnswers,
+  StepSchemas,
+  TemplateContext,
+} from "./types";
+
+// Enhanced form data generation. Answers with no empty value of their
+// schema type (numbers, dates, single files, signatures, calculated values)
+// are left out rather than set to null or "", so the data validates against
+// the step's own schema.
+export const generateFormData = (fields: FormField[]): StepAnswers => {
+  const formData: StepAnswers = {};
+
+  fields.forEach((field) => {
+    if (field.type === "title") return;
+
+    // Fields in a group are answered alongside the group's siblings
+    if (field.type === "group") {
+      Object.assign(formData, generateFormData(field.fields || []));
+      return;
+    }
+
+    if (field.defaultValue !== undefined && field.defaultValue !== null) {
+      formData[field.id] = field.defaultValue;
+    } else {
+      switch (field.type) {
+        case "checkbox":
+          formData[field.id] = [];
+          break;
+        case "file":
+          if (field.multiple) formData[field.id] = [];
+          break;
+        case "number":
+        case "integer":
+        case "calculated":
+        case "date":
+        case "time":
+        case "datetime":
+        case "signature":
+          break;
+        case "repeater":
+          // Start with the minimum number of blank rows
+          formData[field.id] = Array.from({ length: field.minRows || 0 }, () =>
+            generateFormData(field.fields || [])
+          );
+          break;
+        case "text":
+        case "textarea":
+        case "select":
+        case "radio":
+        case "readonly":
+        default:
+          formData[field.id] = "";
+          break;
+      }
+    }
+  });
+
+  return formData;
+};
+
+// A field's default as the user first sees it: "#template" values looked up
+// in the context and relative dates ("today+7") turned into real dates
+export const resolveDefaultValue = (
+  field: FormField,
+  context: TemplateContext
+): unknown => {
+  const value = processTemplateValue(field.defaultValue, context);
+  if (DATE_FIELD_TYPES.includes(field.type) && typeof value === "string") {
+    return resolveDateValue(field.type, value) ?? value;
+  }
+  return value;
+};
+
+// Starting answers for a step, with defaults resolved
+export const getInitialAnswers = (
+  step: Step,
+  context: TemplateContext
+): StepAnswers => {
+  const answers = generateFormData(step.fields);
+  flattenFields(step.fields).forEach((field) => {
+    if (field.id in answers && field.defaultValue != null) {
+      answers[field.id] = resolveDefaultValue(field, context);
+    }
+  });
+  return answers;
+};
+
+// JSON Schema property for one answerable field (`fields` are the step's
+// fields, for typing calculated values)
+const buildFieldProperty = (
+  field: FormField,
+  fields: FormField[] = []
+): Record<string, any> => {
+  const property: any = {
+    title: field.title,
+    type:
+      field.type === "checkbox" || field.type === "repeater"
+        ? "array"
+        : NUMERIC_FIELD_TYPES.includes(field.type)
+        ? field.type
+        : "string",
+  };
+
+  // Enhanced property configuration
+  if (field.type === "checkbox") {
+    property.items = {
+      type: "string",
+      enum: field.options || [],
+    };
+    property.uniqueItems = true;
+  } else if (["radio", "select"].includes(field.type)) {
+    property.enum = field.options || [];
+  } else if (field.type === "file") {
+    property.format = "data-url";
+    property.description = `Max size: ${field.maxFileSize || 10}MB`;
+  } else if (field.type === "signature") {
+    property.format = "data-url";
+    property.contentMediaType = "image/png";
+  } else if (field.type === "repeater") {
+    const columns = (field.fields || []).filter((col) => col.type !== "title");
+    property.items = {
+      type: "object",
+      properties: Object.fromEntries(
+        columns.map((col) => [col.id, buildFieldProperty(col)])
+      ),
+      required: columns.filter((col) => col.required).map((col) => col.id),
+    };
+    if (field.minRows !== undefined) property.minItems = field.minRows;
+    if (field.maxRows !== undefined) property.maxItems = field.maxRows;
+  } else if (field.type === "date") {
+    property.format = "date";
+    // Relative bounds depend on the day the form is filled in, so only
+    // absolute ones become schema keywords (see ui:options for the rest)
+    if (isDateValue(field.type, field.earliest)) {
+      property.formatMinimum = field.earliest;
+    }
+    if (isDateValue(field.type, field.latest)) {
+      property.formatMaximum = field.latest;
+    }
+  } else if (DATE_FIELD_TYPES.includes(field.type)) {
+    // Times are stored as the inputs give them ("10:30",
+    // "2024-05-01T10:30"), without the seconds and offset formats "time" and
+    // "date-time" require, so they are matched by pattern. Their bounds are
+    // only in ui:options, as format bounds need a format.
+    property.pattern = DATE_VALUE_PATTERNS[field.type]!.source;
+  } else if (field.type === "calculated") {
+    // Typed when the formula's result type is known from this step alone
+    const { resultType } = checkExpression(field.formula || "null", fields);
+    if (["string", "number", "boolean"].includes(resultType)) {
+      property.type = resultType;
+    } else {
+      delete property.type;
+    }
+    property.readOnly = true;
+  } else if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+    if (field.min !== undefined) property.minimum = field.min;
+    if (field.max !== undefined) property.maximum = field.max;
+    if (field.step !== undefined) property.multipleOf = field.step;
+  }
+
+  if (TEXT_FIELD_TYPES.includes(field.type)) {
+    if (field.minLength !== undefined) property.minLength = field.minLength;
+    if (field.maxLength !== undefined) property.maxLength = field.maxLength;
+    if (field.pattern) property.pattern = field.pattern;
+  } else if (field.type === "checkbox") {
+    if (field.minSelections !== undefined) {
+      property.minItems = field.minSelections;
+    }
+    if (field.maxSelections !== undefined) {
+      property.maxItems = field.maxSelections;
+    }
+  }
+
+  // Custom messages use the ajv-errors "errorMessage" keyword, keyed by the
+  // JSON Schema keyword they replace
+  const messages = field.errorMessages || {};
+  const errorMessage: Record<string, string> = {};
+  (
+    [
+      ["minLength", "minLength"],
+      ["maxLength", "maxLength"],
+      ["pattern", "pattern"],
+      ["minSelections", "minItems"],
+      ["maxSelections", "maxItems"],
+    ] as const
+  ).forEach(([key, keyword]) => {
+    const message = messages[key]?.trim();
+    if (message && property[keyword] !== undefined) {
+      errorMessage[keyword] = message;
+    }
+  });
+  if (Object.keys(errorMessage).length > 0) {
+    property.errorMessage = errorMessage;
+  }
+
+  if (
+    field.defaultValue !== undefined &&
+    field.type !== "readonly" &&
+    !isRelativeDateValue(field.defaultValue)
+  ) {
+    property.default = field.defaultValue;
+  }
+
+  if (field.readOnly || field.type === "readonly") {
+    property.readOnly = true;
+  }
+
+  return property;
+};
+
+// uiSchema entry for one answerable field
+const buildFieldUiSchema = (field: FormField): Record<string, any> => {
+  // Enhanced UI Schema
+  const uiConfig: any = {
+    "ui:widget": getDefaultWidget(field.type),
+  };
+
+  if (field.placeholder) {
+    uiConfig["ui:placeholder"] = field.placeholder;
+  }
+
+  if (field.readOnly || field.type === "readonly") {
+    uiConfig["ui:readonly"] = true;
+  }
+
+  // UI options for different field types
+  if (field.type === "radio") {
+    uiConfig["ui:widget"] = "radio";
+    uiConfig["ui:options"] = {
+      inline: false,
+      enumOptions:
+        field.options?.map((opt) => ({
+          value: opt,
+          label: opt,
+        })) || [],
+    };
+  } else if (field.type === "checkbox") {
+    uiConfig["ui:widget"] = "checkboxes";
+    uiConfig["ui:options"] = {
+      inline: false,
+      enumOptions:
+        field.options?.map((opt) => ({
+          value: opt,
+          label: opt,
+        })) || [],
+    };
+  } else if (field.type === "select") {
+    uiConfig["ui:widget"] = "select";
+    uiConfig["ui:options"] = {
+      enumOptions: [
+        { value: "", label: "Choose an option..." },
+        ...(field.options?.map((opt) => ({
+          value: opt,
+          label: opt,
+        })) || []),
+      ],
+    };
+  } else if (field.type === "textarea") {
+    uiConfig["ui:widget"] = "textarea";
+    uiConfig["ui:options"] = {
+      rows: 4,
+    };
+  } else if (field.type === "file") {
+    uiConfig["ui:widget"] = "file";
+    uiConfig["ui:options"] = {
+      accept: field.acceptedFileTypes?.join(",") || "*/*",
+      multiple: field.multiple || false,
+    };
+  } else if (field.type === "repeater") {
+    // Row columns are laid out like a step of their own under "items"
+    const columns = (field.fields || []).filter((col) => col.type !== "title");
+    const items: Record<string, any> = {
+      "ui:order": columns.map((col) => col.id),
+    };
+    columns.forEach((col) => {
+      items[col.id] = buildFieldUiSchema(col);
+    });
+    uiConfig.items = items;
+    uiConfig["ui:options"] = {
+      addable: !field.readOnly,
+      removable: !field.readOnly,
+      orderable: false,
+    };
+  } else if (DATE_FIELD_TYPES.includes(field.type)) {
+    const options: Record<string, unknown> = {};
+    if (field.earliest) options.earliest = field.earliest;
+    if (field.latest) options.latest = field.latest;
+    if (isRelativeDateValue(field.defaultValue)) {
+      options.defaultValue = field.defaultValue;
+    }
+    if (Object.keys(options).length > 0) uiConfig["ui:options"] = options;
+  } else if (field.type === "calculated") {
+    uiConfig["ui:readonly"] = true;
+    uiConfig["ui:options"] = {
+      formula: field.formula || "",
+      ...(field.unit && { unit: field.unit }),
+      ...(field.precision !== undefined && { precision: field.precision }),
+    };
+  } else if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+    const options: Record<string, unknown> = {};
+    if (field.unit) options.unit = field.unit;
+    if (field.type === "number" && field.precision !== undefined) {
+      options.precision = field.precision;
+    }
+    if (Object.keys(options).length > 0) uiConfig["ui:options"] = options;
+  }
+
+  return uiConfig;
+};
+
+// JSON Schema that holds exactly when the conditions do, for "if"/"then".
+// Each test also requires the property, since "properties" alone passes
+// when the answer is missing. null when a condition has no JSON Schema
+// equivalent (comparing with a value that is not a number, or comparing
+// times, which have no format to compare by).
+const buildConditionSchema = (
+  item: FieldCondition | ConditionGroup,
+  fields: FormField[]
+): Record<string, any> | null => {
+  if (isConditionGroup(item)) {
+    const parts = item.conditions.map((c) => buildConditionSchema(c, fields));
+    if (parts.some((part) => part === null)) return null;
+    if (parts.length === 1) return parts[0];
+    return item.combinator === "or" ? { anyOf: parts } : { allOf: parts };
+  }
+
+  const field = flattenFields(fields).find((f) => f.id === item.fieldId);
+  const isList = field?.type === "checkbox";
+  const isNumeric =
+    !!field &&
+    (NUMERIC_FIELD_TYPES.includes(field.type) || field.type === "calculated");
+  const isDate = field?.type === "date";
+  const isTime = !!field && DATE_FIELD_TYPES.includes(field.type) && !isDate;
+  const values = (
+    Array.isArray(item.value) ? item.value : [item.value ?? ""]
+  ).map((value) =>
+    isNumeric && value.trim() !== "" && Number.isFinite(Number(value))
+      ? Number(value)
+      : value
+  );
+  const answerIs = (property: Record<string, any>) => ({
+    properties: { [item.fieldId]: property },
+    required: [item.fieldId],
+  });
+  const answered = answerIs({ not: { enum: ["", null, []] } });
+  // Numeric bound for greater/less than, null unless the value is a number
+  const bound =
+    String(values[0]).trim() !== "" && Number.isFinite(Number(values[0]))
+      ? Number(values[0])
+      : null;
+
+  switch (item.operator) {
+    case "equals":
+      return answerIs({ const: isList ? [values[0]] : values[0] });
+    case "notEquals":
+      return { not: answerIs({ const: isList ? [values[0]] : values[0] }) };
+    case "in":
+      return answerIs(
+        isList ? { contains: { enum: values } } : { enum: values }
+      );
+    case "contains":
+      return answerIs(
+        isList
+          ? { contains: { const: values[0] } }
+          : {
+              type: "string",
+              pattern: String(values[0]).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+            }
+      );
+    case "greaterThan":
+      if (isTime) return null;
+      if (isDate) {
+        return answerIs({ type: "string", formatExclusiveMinimum: values[0] });
+      }
+      return bound === null
+        ? null
+        : answerIs({ type: "number", exclusiveMinimum: bound });
+    case "lessThan":
+      if (isTime) return null;
+      if (isDate) {
+        return answerIs({ type: "string", formatExclusiveMaximum: values[0] });
+      }
+      return bound === null
+        ? null
+        : answerIs({ type: "number", exclusiveMaximum: bound });
+    case "isEmpty":
+      return { not: answered };
+    case "isAnswered":
+      return answered;
+    default:
+      return {};
+  }
+};
+
+// Enhanced schema generation with proper form data. Pass every field of the
+// flow as `flowFields` when conditions or branching read earlier pages.
+export const generateAllSchemas = (
+  step: Step,
+  flowFields: FormField[] = step.fields
+): StepSchemas => {
+  const jsonSchema = {
+    type: "object" as const,
+    description: step.description,
+    properties: {} as Record<string, any>,
+    required: [] as string[],
+  };
+
+  const uiSchema = {
+    "ui:order": [] as string[],
+    "ui:submitButtonOptions": {
+      submitText: "Continue",
+      norender: false,
+    },
+  } as Record<string, any>;
+
+  const formData = generateFormData(step.fields);
+
+  // Group children are flat properties; "ui:groups" records how they are
+  // grouped and "ui:order" keeps them together
+  const groups = flattenFields(step.fields).filter((f) => f.type === "group");
+  if (groups.length > 0) {
+    uiSchema["ui:groups"] = groups.map((group) => {
+      const visibleWhen = getVisibilityCondition(group, flowFields);
+      return {
+        id: group.id,
+        title: group.title,
+        fields: (group.fields || []).map((child) => child.id),
+        collapsible: group.collapsible || false,
+        collapsed: (group.collapsible && group.collapsed) || false,
+        columns: group.columns || 1,
+        ...(visibleWhen && { visibleWhen }),
+      };
+    });
+  }
+
+  const requiredMessages: Record<string, string> = {};
+  // Required fields that can be hidden are only required while shown
+  const conditionalRequired: Record<string, any>[] = [];
+
+  flattenFields(step.fields).forEach((field: FormField) => {
+    if (field.type === "title" || field.type === "group") return;
+
+    jsonSchema.properties[field.id] = buildFieldProperty(field, step.fields);
+    uiSchema[field.id] = buildFieldUiSchema(field);
+    uiSchema["ui:order"].push(field.id);
+
+    const visibleWhen = getVisibilityCondition(field, flowFields);
+    if (visibleWhen) uiSchema[field.id]["ui:visibleWhen"] = visibleWhen;
+
+    if (!field.required) return;
+    const message = field.errorMessages?.required?.trim();
+    const group = findParentGroup(field.id, step.fields);
+    const conditions = [
+      group && getVisibilityCondition(group, flowFields),
+      visibleWhen,
+    ].filter((condition): condition is ConditionGroup => !!condition);
+
+    if (conditions.length === 0) {
+      jsonSchema.required.push(field.id);
+      if (message) requiredMessages[field.id] = message;
+      return;
+    }
+    // This page's schema cannot see other pages' answers, and some
+    // comparisons have no JSON Schema form; such fields are left to the
+    // renderer (ui:visibleWhen) instead of "if"/"then"
+    const pageIds = flattenFields(step.fields).map((f) => f.id);
+    const condition = buildConditionSchema(
+      { combinator: "and", conditions },
+      step.fields
+    );
+    if (
+      !condition ||
+      conditions
+        .flatMap(getConditionFieldIds)
+        .some((id) => !pageIds.includes(id))
+    ) {
+      return;
+    }
+    conditionalRequired.push({
+      if: condition,
+      then: {
+        required: [field.id],
+        ...(message && { errorMessage: { required: { [field.id]: message } } }),
+      },
+    });
+  });
+
+  if (conditionalRequired.length > 0) {
+    (jsonSchema as Record<string, any>).allOf = conditionalRequired;
+  }
+
+  if (Object.keys(requiredMessages).length > 0) {
+    (jsonSchema as Record<string, any>).errorMessage = {
+      required: requiredMessages,
+    };
+  }
+
+  const actionSchema: StepSchemas["actionSchema"] = {
+    actionName: step.actionName,
+    summaryCheckExpression: step.summaryCheckExpression || "true",
+    nextFlowDeterminationExpression: step.navigationRule
+      ? convertToExpression(step.navigationRule, step, flowFields)
+      : "'continue'",
+  };
+
+  const calculated = flattenFields(step.fields).filter(
+    (field) => field.type === "calculated"
+  );
+  if (calculated.length > 0) {
+    actionSchema.calculatedFields = Object.fromEntries(
+      calculated.map((field) => [field.id, field.formula || ""])
+    );
+  }
+
+  return { jsonSchema, uiSchema, formData, actionSchema };
+};
+
+// Problems with the expressions a step exports in its actionSchema. Pass
+// every field of the flow as `flowFields` so formulas and branching may read
+// other pages.
+export const checkStepExpressions = (
+  step: Step,
+  flowFields: FormField[] = step.fields
+): string[] => {
+  const summary = checkExpression(
+    step.summaryCheckExpression || "true",
+    step.fields
+  );
+  const errors = summary.errors.map((error) => `Page check: ${error}`);
+
+  if (step.navigationRule) {
+    const navigation = checkExpression(
+      convertToExpression(step.navigationRule, step, flowFields),
+      flowFields
+    );
+    errors.push(...navigation.errors.map((error) => `Branching: ${error}`));
+  }
+
+  errors.push(...checkStepFormulas(step, flowFields));
+
+  return errors;
+};
+
+// Field IDs that cannot be exported safely (see getIdentifierProblem).
+// Repeater columns become property names of each row, so they count too.
+export const checkStepIdentifiers = (step: Step): string[] =>
+  flattenFields(step.fields).flatMap((field) => {
+    const problem = getIdentifierProblem(field.id);
+    const columns =
+      field.type === "repeater"
+        ? (field.fields || []).flatMap((column) => {
+            const columnProblem = getIdentifierProblem(column.id);
+            return columnProblem
+              ? [
+                  `Column "${column.title}" of "${field.title}": ${columnProblem}`,
+                ]
+              : [];
+          })
+        : [];
+    return [
+      ...(problem ? [`Field "${field.title}": ${problem}`] : []),
+      ...columns,
+    ];
+  });
@@ -0,0 +1,206 @@
+import { CHOICE_FIELD_TYPES, flattenFields, isEmptyAnswer } from "./fields";
+import { findMatchingCondition, resolveNextStep } from "./navigation";
+import type { FormField, NavigationRule, Step, StepAnswers } from "./types";
+
+// Stop after this many answer combinations; independent branches multiply
+export const MAX_SIMULATED_PATHS = 500;
+
+// The answer a route gives to a branching page's driving field
+export interface RouteChoice {
+  stepId: string;
+  fieldId: string;
+  // Answers that send the route this way, and whether an answer matching
+  // none of the rule's conditions (its default route) does too
+  values: string[];
+  otherwise: boolean;
+}
+
+export interface SimulatedRoute {
+  // Pages in the order they are shown
+  stepIds: string[];
+  choices: RouteChoice[];
+  // How the route stops: the form finishes ("complete" or an "end" target),
+  // "Next" goes back to `loopStepId`, or the rule is broken
+  outcome: "complete" | "end" | "loop" | "missingTarget" | "missingAnswer";
+  loopStepId?: string;
+  target?: string;
+}
+
+// One route out of a rule; `value` is undefined for the default route
+export interface RouteCoverage {
+  stepId: string;
+  value?: string;
+  exercised: boolean;
+}
+
+export interface FlowSimulation {
+  routes: SimulatedRoute[];
+  coverage: {
+    steps: { stepId: string; visited: boolean }[];
+    conditions: RouteCoverage[];
+  };
+  // More than MAX_SIMULATED_PATHS combinations; the report is incomplete
+  truncated: boolean;
+}
+
+// One answer per route out of the rule: each condition's value, plus an
+// answer no condition matches when there is one
+const branchAnswers = (rule: NavigationRule, field: FormField): unknown[] => {
+  const values = [...new Set(rule.conditions.map((cond) => cond.value))];
+  let other: string | undefined;
+  if (CHOICE_FIELD_TYPES.includes(field.type)) {
+    other = (field.options || []).find((option) => !values.includes(option));
+  } else {
+    other = "other";
+    for (let i = 2; values.includes(other); i++) other = `other ${i}`;
+  }
+
+  return [...values, ...(other === undefined ? [] : [other])].map((value) =>
+    field.type === "checkbox" ? [value] : value
+  );
+};
+
+/**
+ * Walks every route through the flow the way the preview's "Next" does
+ * (resolveNextStep), trying each answer that picks a different branch
+ * wherever a rule's driving field has no answer yet. Routes through the same
+ * pages that stop the same way are merged. A route stops when it finishes
+ * the form, returns to a page it already showed (a loop) or hits a broken
+ * rule.
+ */
+export const simulateFlow = (steps: Step[]): FlowSimulation => {
+  const flowFields = flattenFields(steps.flatMap((step) => step.fields));
+  const routes = new Map<string, SimulatedRoute>();
+  const visited = new Set<string>();
+  const exercised = new Set<string>();
+  const coverageKey = (stepId: string, value?: string) =>
+    value === undefined ? `${stepId}:default` : `${stepId}:=${value}`;
+  let paths = 0;
+  let truncated = false;
+
+  const addRoute = (route: SimulatedRoute) => {
+    paths++;
+    // Routes only merge when they also stop at the same place
+    const key = [
+      route.stepIds.join(">"),
+      route.outcome,
+      route.loopStepId ?? "",
+      route.target ?? "",
+    ].join("|");
+    const existing = routes.get(key);
+    if (!existing) {
+      // Choices are shared with sibling routes, so merge into copies
+      routes.set(key, {
+        ...route,
+        choices: route.choices.map((choice) => ({ ...choice })),
+      });
+      return;
+    }
+    // Same pages means the same branching pages, in the same order
+    route.choices.forEach((choice, index) => {
+      const merged = existing.choices[index];
+      merged.values = [...new Set([...merged.values, ...choice.values])];
+      merged.otherwise = merged.otherwise || choice.otherwise;
+    });
+  };
+
+  const walk = (
+    stepIndex: number,
+    stepIds: string[],
+    choices: RouteChoice[],
+    answers: StepAnswers
+  ) => {
+    const step = steps[stepIndex];
+    visited.add(step.id);
+
+    const rule = step.navigationRule;
+    const field = rule?.fieldId
+      ? flowFields.find((f) => f.id === rule.fieldId)
+      : undefined;
+    // Rules reading an earlier page's answer do not branch again
+    const branching = !!rule && !!field && isEmptyAnswer(answers[rule.fieldId]);
+    const candidates = branching ? branchAnswers(rule!, field!) : [undefined];
+
+    for (const answer of candidates) {
+      if (paths >= MAX_SIMULATED_PATHS) {
+        truncated = true;
+        return;
+      }
+
+      const routeAnswers = branching
+        ? { ...answers, [rule!.fieldId]: answer }
+        : answers;
+      let routeChoices = choices;
+      if (rule && field) {
+        const matched = findMatchingCondition(
+          rule,
+          field,
+          routeAnswers[rule.fieldId]
+        );
+        exercised.add(coverageKey(step.id, matched?.value));
+        if (branching) {
+          routeChoices = [
+            ...choices,
+            {
+              stepId: step.id,
+              fieldId: rule.fieldId,
+              values: matched ? [matched.value] : [],
+              otherwise: !matched,
+            },
+          ];
+        }
+      }
+
+      const outcome = resolveNextStep(steps, stepIndex, routeAnswers);
+      if (outcome.type === "goto") {
+        const nextId = steps[outcome.stepIndex].id;
+        if (stepIds.includes(nextId)) {
+          addRoute({
+            stepIds,
+            choices: routeChoices,
+            outcome: "loop",
+            loopStepId: nextId,
+          });
+        } else {
+          walk(
+            outcome.stepIndex,
+            [...stepIds, nextId],
+            routeChoices,
+            routeAnswers
+          );
+        }
+      } else {
+        addRoute({
+          stepIds,
+          choices: routeChoices,
+          outcome: outcome.type,
+          ...(outcome.type === "missingTarget" && { target: outcome.target }),
+        });
+      }
+    }
+  };
+
+  if (steps.length > 0) walk(0, [steps[0].id], [], {});
+
+  return {
+    routes: [...routes.values()],
+    coverage: {
+      steps: steps.map((step) => ({
+        stepId: step.id,
+        visited: visited.has(step.id),
+      })),
+      conditions: steps.flatMap((step) => {
+        const rule = step.navigationRule;
+        if (!rule || !rule.fieldId) return [];
+        return [...rule.conditions.map((cond) => cond.value), undefined].map(
+          (value) => ({
+            stepId: step.id,
+            ...(value !== undefined && { value }),
+            exercised: exercised.has(coverageKey(step.id, value)),
+          })
+        );
+      }),
+    },
+    truncated,
+  };
+};
@@ -0,0 +1,30 @@
+import type { TemplateContext } from "./types";
+
+// Resolve "#workorder.priority"-style defaults against the template context
+export const processTemplateValue = (
+  value: any,
+  context: TemplateContext
+): any => {
+  if (typeof value !== "string" || !value.startsWith("#")) {
+    return value;
+  }
+
+  try {
+    const path = value.substring(1);
+    const keys = path.split(".");
+    let result: any = context;
+
+    for (const key of keys) {
+      if (result && typeof result === "object" && key in result) {
+        result = result[key];
+      } else {
+        return value;
+      }
+    }
+
+    return result || value;
+  } catch (error) {
+    console.warn("Template processing error:", error);
+    return value;
+  }
+};
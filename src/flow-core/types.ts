@@ -0,0 +1,255 @@
+export type FormFieldType =
+  | "title"
+  | "text"
+  | "textarea"
+  | "select"
+  | "radio"
+  | "checkbox"
+  | "file"
+  | "readonly"
+  | "number"
+  | "integer"
+  | "date"
+  | "time"
+  | "datetime"
+  | "signature"
+  | "repeater"
+  | "group"
+  | "calculated";
+
+// Validation rules whose error message can be replaced per field
+export type ValidationMessageKey =
+  | "required"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "minSelections"
+  | "maxSelections";
+
+// Comparisons a visibility condition can make against another answer
+export type ConditionOperator =
+  | "equals"
+  | "notEquals"
+  | "in"
+  | "contains"
+  | "greaterThan"
+  | "lessThan"
+  | "isEmpty"
+  | "isAnswered";
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  // A list for "in"; unused by "isEmpty" and "isAnswered"
+  value?: string | string[];
+}
+
+// Conditions joined with AND/OR; groups nest for mixed logic
+export interface ConditionGroup {
+  combinator: "and" | "or";
+  conditions: Array<FieldCondition | ConditionGroup>;
+}
+
+export interface FormField {
+  id: string;
+  type: FormFieldType;
+  title: string;
+  required: boolean;
+  placeholder?: string;
+  options?: string[];
+  defaultValue?: string | unknown;
+  readOnly?: boolean;
+  widget?: string;
+  // Single "equals" condition from older flows; visibleWhen replaces it
+  dependsOn?: string;
+  showWhen?: string;
+  // Shown only while these conditions hold (see isFieldVisible)
+  visibleWhen?: ConditionGroup;
+  acceptedFileTypes?: string[];
+  maxFileSize?: number;
+  multiple?: boolean;
+  captureMode?: "user" | "environment" | "none";
+  // text / textarea fields; `pattern` is a JavaScript regular expression
+  // tested like JSON Schema's "pattern" (unanchored unless it uses ^ and $)
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // checkbox fields
+  minSelections?: number;
+  maxSelections?: number;
+  // Replaces the default error message of a rule
+  errorMessages?: Partial<Record<ValidationMessageKey, string>>;
+  // calculated fields - expression over other field IDs (any page), e.g.
+  // "formData.laborHours * formData.rate"
+  formula?: string;
+  // number / integer fields (unit and precision also format calculated values)
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  precision?: number;
+  // date / time / datetime fields - absolute values in the input format, or
+  // relative ones such as "today", "today+7" or "now"
+  earliest?: string;
+  latest?: string;
+  // repeater fields - the columns of each row, and how many rows are allowed
+  // group fields - the fields inside the group (answered like any other)
+  fields?: FormField[];
+  minRows?: number;
+  maxRows?: number;
+  // group fields
+  collapsible?: boolean;
+  collapsed?: boolean;
+  columns?: number;
+}
+
+// Targets are step IDs or navigation keywords ("continue", "skip", "end");
+// flows saved before IDs were used are converted by migrateNavigationRules
+export interface NavigationRule {
+  fieldId: string;
+  conditions: Array<{
+    value: string;
+    nextStepId: string;
+  }>;
+  defaultStepId?: string;
+}
+
+export interface Step {
+  id: string;
+  name: string;
+  description: string;
+  fields: FormField[];
+  actionName: string;
+  navigationRule?: NavigationRule;
+  summaryCheckExpression: string;
+}
+
+// Answers for one step, keyed by field ID
+export type StepAnswers = Record<string, unknown>;
+
+// Answers for a whole run, keyed by step ID and then field ID
+export type FlowAnswers = Record<string, StepAnswers>;
+
+export interface SavedFlow {
+  id: string;
+  name: string;
+  description: string;
+  steps: Step[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateContext {
+  workorder?: {
+    scopeOfWork?: string;
+    clientDescription?: string;
+    priority?: string;
+    location?: string;
+  };
+  client?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+  technician?: {
+    name?: string;
+    id?: string;
+    trade?: string;
+  };
+}
+
+// Schemas generated for a single step
+export interface StepSchemas {
+  jsonSchema: Record<string, any>;
+  uiSchema: Record<string, any>;
+  formData: Record<string, any>;
+  actionSchema: {
+    actionName: string;
+    summaryCheckExpression: string;
+    nextFlowDeterminationExpression: string;
+    // Formula of each calculated field, keyed by field ID. Formulas read the
+    // answers of the whole flow so far as `formData`.
+    calculatedFields?: Record<string, string>;
+  };
+}
+
+/**
+ * One route out of a step. `to` is the step ID the route lands on, or null
+ * when the flow finishes (the "end" keyword, "continue" on the last page, or
+ * a target that no longer exists). `target` keeps the rule's original value.
+ * The default route of a step has no `condition`.
+ */
+export interface NavigationEdge {
+  from: string;
+  to: string | null;
+  target: string;
+  condition?: { fieldId: string; value: string };
+}
+
+export interface NavigationGraph {
+  startStepId: string | null;
+  edges: NavigationEdge[];
+}
+
+export interface FlowBundleStep extends Step {
+  order: number;
+  schemas: StepSchemas;
+}
+
+/**
+ * File format written by "Export JSON". Each step carries its own definition
+ * (fields, navigation rule, ...) next to the schemas generated from it, so a
+ * bundle can be rendered as-is or loaded back into the designer.
+ *
+ * Version history:
+ * - 1 (`"1.0"`): schemas only, every step contained the current page's schema
+ * - 2: per-step schemas, step definitions and the navigation graph
+ * - 3: navigation rules target step IDs instead of step names
+ */
+export interface FlowBundle {
+  format: "form-builder/flow-bundle";
+  version: number;
+  name: string;
+  description: string;
+  exportedAt: string;
+  steps: FlowBundleStep[];
+  navigation: NavigationGraph;
+  metadata: {
+    totalSteps: number;
+    totalFields: number;
+    fieldTypes: string[];
+  };
+}
+
+export interface StepValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// Error messages keyed by the ID of the field they belong to
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Result of checking a user's answers. `errors` lists every message;
+ * `fieldErrors` holds the ones that belong to a field, and `pageErrors` the
+ * rest (the page check).
+ */
+export interface StepAnswersValidationResult extends StepValidationResult {
+  fieldErrors: FieldErrors;
+  pageErrors: string[];
+}
+
+/**
+ * Where "Next" leads from a step for a given set of answers.
+ * - goto: show `stepIndex` next
+ * - complete: continued past the last page
+ * - end: the rule routed to the "end" keyword
+ * - missingAnswer: the rule's driving field has no answer yet
+ * - missingTarget: the rule targets a page that does not exist
+ */
+export type NavigationOutcome =
+  | { type: "goto"; stepIndex: number; target: string }
+  | { type: "complete" }
+  | { type: "end" }
+  | { type: "missingAnswer"; fieldId: string }
+  | { type: "missingTarget"; target: string };
@@ -0,0 +1,577 @@
+import {
+  checkExpression,
+  evaluateExpression,
+  getIdentifierProblem,
+} from "./expression";
+import { buildFormulaScope } from "./calculated";
+import { isDateValue, resolveDateValue } from "./dates";
+import {
+  CHOICE_FIELD_TYPES,
+  DATE_FIELD_TYPES,
+  GROUP_CHILD_TYPES,
+  NUMERIC_FIELD_TYPES,
+  REPEATER_COLUMN_TYPES,
+  TEXT_FIELD_TYPES,
+  flattenFields,
+  isEmptyAnswer,
+} from "./fields";
+import type {
+  FormField,
+  Step,
+  FieldErrors,
+  StepAnswers,
+  StepAnswersValidationResult,
+  StepValidationResult,
+  ValidationMessageKey,
+} from "./types";
+import { checkVisibilityCondition, isFieldVisible } from "./visibility";
+
+// Ready-made patterns offered in the designer
+export const PATTERN_PRESETS: Record<
+  string,
+  { label: string; pattern: string; message: string }
+> = {
+  email: {
+    label: "Email address",
+    pattern: "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$",
+    message: "must be a valid email address",
+  },
+  phone: {
+    label: "Phone number",
+    pattern: "^\\+?[0-9 ().-]{7,20}$",
+    message: "must be a valid phone number",
+  },
+  postalCode: {
+    label: "Postal code",
+    pattern: "^[A-Za-z0-9][A-Za-z0-9 -]{1,8}[A-Za-z0-9]$",
+    message: "must be a valid postal code",
+  },
+};
+
+// The preset a pattern came from, if any
+export const findPatternPreset = (pattern: string | undefined) =>
+  Object.keys(PATTERN_PRESETS).find(
+    (key) => PATTERN_PRESETS[key].pattern === pattern
+  );
+
+// Compiled `pattern`, or null when it is not a valid regular expression
+export const compileFieldPattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return null;
+  }
+};
+
+// The field's own message for a rule, or the default one
+const ruleMessage = (
+  field: FormField,
+  key: ValidationMessageKey,
+  fallback: string
+): string => field.errorMessages?.[key]?.trim() || fallback;
+
+export const getRequiredMessage = (field: FormField): string =>
+  ruleMessage(field, "required", `"${field.title}" is required`);
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Length and pattern checks for a text answer
+const validateTextAnswer = (field: FormField, value: unknown): string[] => {
+  const text = String(value);
+  const errors: string[] = [];
+
+  if (field.minLength !== undefined && text.length < field.minLength) {
+    errors.push(
+      ruleMessage(
+        field,
+        "minLength",
+        `"${field.title}" must be at least ${plural(
+          field.minLength,
+          "character"
+        )}`
+      )
+    );
+  }
+  if (field.maxLength !== undefined && text.length > field.maxLength) {
+    errors.push(
+      ruleMessage(
+        field,
+        "maxLength",
+        `"${field.title}" must be at most ${plural(
+          field.maxLength,
+          "character"
+        )}`
+      )
+    );
+  }
+
+  const regex = field.pattern ? compileFieldPattern(field.pattern) : null;
+  if (regex && !regex.test(text)) {
+    const preset = findPatternPreset(field.pattern);
+    errors.push(
+      ruleMessage(
+        field,
+        "pattern",
+        `"${field.title}" ${
+          preset
+            ? PATTERN_PRESETS[preset].message
+            : "is not in the expected format"
+        }`
+      )
+    );
+  }
+  return errors;
+};
+
+// Selection count checks for a checkbox answer
+const validateSelectionAnswer = (
+  field: FormField,
+  value: unknown
+): string[] => {
+  const count = Array.isArray(value) ? value.length : 0;
+  const errors: string[] = [];
+
+  if (field.minSelections !== undefined && count < field.minSelections) {
+    errors.push(
+      ruleMessage(
+        field,
+        "minSelections",
+        `Select at least ${plural(field.minSelections, "option")} for "${
+          field.title
+        }"`
+      )
+    );
+  }
+  if (field.maxSelections !== undefined && count > field.maxSelections) {
+    errors.push(
+      ruleMessage(
+        field,
+        "maxSelections",
+        `Select at most ${plural(field.maxSelections, "option")} for "${
+          field.title
+        }"`
+      )
+    );
+  }
+  return errors;
+};
+
+// Run the step's summaryCheckExpression; a falsy result blocks the step
+export const checkStepSummary = (
+  step: Step,
+  answers: StepAnswers
+): StepValidationResult => {
+  const expression = step.summaryCheckExpression?.trim();
+  if (!expression || expression === "true") return { valid: true, errors: [] };
+
+  try {
+    return evaluateExpression(expression, answers)
+      ? { valid: true, errors: [] }
+      : { valid: false, errors: [`Page check failed: ${expression}`] };
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Page check could not run: ${(error as Error).message}`],
+    };
+  }
+};
+
+const countDecimals = (value: number): number => {
+  const [, decimals = ""] = String(value).split(".");
+  return decimals.length;
+};
+
+// Bounds, step and precision checks for a numeric answer
+const validateNumberAnswer = (field: FormField, value: unknown): string[] => {
+  const number = typeof value === "number" ? value : Number(value);
+  const unit = field.unit ? ` ${field.unit}` : "";
+
+  if (typeof value === "boolean" || !Number.isFinite(number)) {
+    return [`"${field.title}" must be a number`];
+  }
+  if (field.type === "integer" && !Number.isInteger(number)) {
+    return [`"${field.title}" must be a whole number`];
+  }
+
+  const errors: string[] = [];
+  if (field.min !== undefined && number < field.min) {
+    errors.push(`"${field.title}" must be at least ${field.min}${unit}`);
+  }
+  if (field.max !== undefined && number > field.max) {
+    errors.push(`"${field.title}" must be at most ${field.max}${unit}`);
+  }
+  if (field.step) {
+    const steps = number / field.step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      errors.push(`"${field.title}" must be a multiple of ${field.step}`);
+    }
+  }
+  if (
+    field.type === "number" &&
+    field.precision !== undefined &&
+    countDecimals(number) > field.precision
+  ) {
+    errors.push(
+      `"${field.title}" allows at most ${field.precision} decimal place${
+        field.precision === 1 ? "" : "s"
+      }`
+    );
+  }
+  return errors;
+};
+
+// Format and earliest/latest checks for a date, time or datetime answer
+const validateDateAnswer = (field: FormField, value: unknown): string[] => {
+  if (!isDateValue(field.type, value)) {
+    return [`"${field.title}" is not a valid ${field.type}`];
+  }
+
+  const answer = value as string;
+  const earliest =
+    field.earliest && resolveDateValue(field.type, field.earliest);
+  const latest = field.latest && resolveDateValue(field.type, field.latest);
+
+  const errors: string[] = [];
+  if (earliest && answer < earliest) {
+    errors.push(`"${field.title}" must be ${earliest} or later`);
+  }
+  if (latest && answer > latest) {
+    errors.push(`"${field.title}" must be ${latest} or earlier`);
+  }
+  return errors;
+};
+
+// Row count checks, then required and type-specific checks on every cell
+const validateRepeaterAnswer = (field: FormField, value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return [`"${field.title}" must be a list of rows`];
+  }
+
+  const errors: string[] = [];
+  if (field.minRows !== undefined && value.length < field.minRows) {
+    errors.push(
+      `"${field.title}" needs at least ${field.minRows} row${
+        field.minRows === 1 ? "" : "s"
+      }`
+    );
+  }
+  if (field.maxRows !== undefined && value.length > field.maxRows) {
+    errors.push(
+      `"${field.title}" allows at most ${field.maxRows} row${
+        field.maxRows === 1 ? "" : "s"
+      }`
+    );
+  }
+
+  value.forEach((row, rowIndex) => {
+    const cells: StepAnswers =
+      row && typeof row === "object" && !Array.isArray(row) ? row : {};
+    const prefix = `"${field.title}" row ${rowIndex + 1}:`;
+
+    (field.fields || []).forEach((column) => {
+      if (column.type === "title") return;
+
+      const cell = cells[column.id];
+      if (isEmptyAnswer(cell)) {
+        if (column.required) {
+          errors.push(`${prefix} ${getRequiredMessage(column)}`);
+        }
+        return;
+      }
+      validateFieldAnswer(column, cell).forEach((error) =>
+        errors.push(`${prefix} ${error}`)
+      );
+    });
+  });
+  return errors;
+};
+
+// Type-specific checks for a filled-in answer
+const validateFieldAnswer = (field: FormField, value: unknown): string[] => {
+  if (field.type === "repeater") {
+    return validateRepeaterAnswer(field, value);
+  }
+  if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+    return validateNumberAnswer(field, value);
+  }
+  if (DATE_FIELD_TYPES.includes(field.type)) {
+    return validateDateAnswer(field, value);
+  }
+  if (TEXT_FIELD_TYPES.includes(field.type)) {
+    return validateTextAnswer(field, value);
+  }
+  if (field.type === "checkbox") {
+    return validateSelectionAnswer(field, value);
+  }
+  if (
+    field.type === "signature" &&
+    (typeof value !== "string" || !value.startsWith("data:image/png;base64,"))
+  ) {
+    return [`"${field.title}" is not a valid signature`];
+  }
+  return [];
+};
+
+// Check a user's answers for one step (required and type-specific checks on
+// visible fields, then the page check once every field is valid). Pass the
+// earlier pages' answers and every field of the flow when visibility
+// conditions read other pages.
+export const validateStepAnswers = (
+  step: Step,
+  answers: StepAnswers,
+  previousAnswers: StepAnswers[] = [],
+  flowFields: FormField[] = step.fields
+): StepAnswersValidationResult => {
+  const fieldErrors: FieldErrors = {};
+  // Visibility conditions may read answers from earlier pages
+  const scope = buildFormulaScope(previousAnswers, answers);
+
+  flattenFields(step.fields).forEach((field) => {
+    if (
+      field.type === "title" ||
+      field.type === "group" ||
+      field.type === "calculated" ||
+      !isFieldVisible(field, step.fields, scope, flowFields)
+    ) {
+      return;
+    }
+
+    const value = answers[field.id];
+    const messages = isEmptyAnswer(value)
+      ? field.required
+        ? [getRequiredMessage(field)]
+        : []
+      : validateFieldAnswer(field, value);
+    if (messages.length > 0) fieldErrors[field.id] = messages;
+  });
+
+  const errors = Object.values(fieldErrors).flat();
+  const pageErrors =
+    errors.length === 0 ? checkStepSummary(step, answers).errors : [];
+  errors.push(...pageErrors);
+
+  return { valid: errors.length === 0, errors, fieldErrors, pageErrors };
+};
+
+// Designer configuration problems for one field (and a repeater's columns)
+const validateFieldDefinition = (field: FormField): string[] => {
+  const errors: string[] = [];
+
+  const idProblem = getIdentifierProblem(field.id);
+  if (idProblem) {
+    errors.push(`Field "${field.title || field.id}": ${idProblem}`);
+  }
+
+  if (!field.title?.trim()) {
+    errors.push(`Field "${field.id}" needs a title`);
+  }
+
+  if (
+    CHOICE_FIELD_TYPES.includes(field.type) &&
+    (!field.options || field.options.length === 0)
+  ) {
+    errors.push(`"${field.title}" needs options`);
+  }
+
+  if (field.type === "file" && field.maxFileSize && field.maxFileSize > 100) {
+    errors.push(`"${field.title}" file size limit too high`);
+  }
+
+  if (DATE_FIELD_TYPES.includes(field.type)) {
+    const settings: [string, unknown][] = [
+      ["earliest", field.earliest],
+      ["latest", field.latest],
+      ["default value", field.defaultValue],
+    ];
+    settings.forEach(([label, value]) => {
+      if (
+        typeof value === "string" &&
+        value !== "" &&
+        !value.startsWith("#") &&
+        resolveDateValue(field.type, value) === null
+      ) {
+        errors.push(`"${field.title}" ${label} "${value}" is not valid`);
+      }
+    });
+
+    const earliest = field.earliest
+      ? resolveDateValue(field.type, field.earliest)
+      : null;
+    const latest = field.latest
+      ? resolveDateValue(field.type, field.latest)
+      : null;
+    if (earliest && latest && earliest > latest) {
+      errors.push(`"${field.title}" earliest limit is after its latest`);
+    }
+  }
+
+  if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+    if (
+      field.min !== undefined &&
+      field.max !== undefined &&
+      field.min > field.max
+    ) {
+      errors.push(`"${field.title}" minimum is greater than its maximum`);
+    }
+    if (
+      typeof field.defaultValue === "string" &&
+      field.defaultValue !== "" &&
+      !field.defaultValue.startsWith("#")
+    ) {
+      errors.push(`"${field.title}" default value must be a number`);
+    }
+    if (field.step !== undefined && field.step <= 0) {
+      errors.push(`"${field.title}" step must be greater than 0`);
+    }
+    if (
+      field.precision !== undefined &&
+      (!Number.isInteger(field.precision) || field.precision < 0)
+    ) {
+      errors.push(`"${field.title}" decimal places must be 0 or more`);
+    }
+  }
+
+  if (field.type === "repeater") {
+    const columns = field.fields || [];
+    if (columns.length === 0) {
+      errors.push(`"${field.title}" needs at least one column`);
+    }
+    if (
+      field.minRows !== undefined &&
+      field.maxRows !== undefined &&
+      field.minRows > field.maxRows
+    ) {
+      errors.push(`"${field.title}" minimum rows is greater than its maximum`);
+    }
+    if (
+      [field.minRows, field.maxRows].some(
+        (rows) => rows !== undefined && (!Number.isInteger(rows) || rows < 0)
+      )
+    ) {
+      errors.push(`"${field.title}" row limits must be whole numbers`);
+    }
+
+    const seenIds = new Set<string>();
+    columns.forEach((column) => {
+      if (seenIds.has(column.id)) {
+        errors.push(`"${field.title}" has two columns with ID "${column.id}"`);
+      }
+      seenIds.add(column.id);
+
+      if (!REPEATER_COLUMN_TYPES.includes(column.type)) {
+        errors.push(
+          `"${field.title}" column "${column.title}" cannot be a ${column.type} field`
+        );
+        return;
+      }
+      validateFieldDefinition(column).forEach((error) =>
+        errors.push(`"${field.title}" column: ${error}`)
+      );
+    });
+  }
+
+  if (
+    field.minLength !== undefined &&
+    field.maxLength !== undefined &&
+    field.minLength > field.maxLength
+  ) {
+    errors.push(`"${field.title}" minimum length is greater than its maximum`);
+  }
+  if (
+    [field.minLength, field.maxLength].some(
+      (length) =>
+        length !== undefined && (!Number.isInteger(length) || length < 0)
+    )
+  ) {
+    errors.push(`"${field.title}" length limits must be whole numbers`);
+  }
+  if (field.pattern && !compileFieldPattern(field.pattern)) {
+    errors.push(`"${field.title}" pattern is not a valid regular expression`);
+  }
+
+  if (field.type === "checkbox") {
+    if (
+      field.minSelections !== undefined &&
+      field.maxSelections !== undefined &&
+      field.minSelections > field.maxSelections
+    ) {
+      errors.push(
+        `"${field.title}" minimum selections is greater than its maximum`
+      );
+    }
+    if (
+      field.minSelections !== undefined &&
+      field.minSelections > (field.options?.length ?? 0)
+    ) {
+      errors.push(
+        `"${field.title}" requires more selections than it has options`
+      );
+    }
+  }
+
+  if (field.type === "calculated" && !field.formula?.trim()) {
+    errors.push(`"${field.title}" needs a formula`);
+  }
+
+  if (field.type === "group") {
+    const children = field.fields || [];
+    if (children.length === 0) {
+      errors.push(`Group "${field.title}" is empty`);
+    }
+    if (
+      field.columns !== undefined &&
+      (!Number.isInteger(field.columns) || field.columns < 1)
+    ) {
+      errors.push(`Group "${field.title}" needs at least 1 column`);
+    }
+
+    children.forEach((child) => {
+      if (!GROUP_CHILD_TYPES.includes(child.type)) {
+        errors.push(
+          `Group "${field.title}" cannot contain a ${child.type} field ("${child.title}")`
+        );
+        return;
+      }
+      validateFieldDefinition(child).forEach((error) =>
+        errors.push(`Group "${field.title}": ${error}`)
+      );
+    });
+  }
+
+  return errors;
+};
+
+// Check that a step is correctly configured in the designer. `flowFields`
+// are the fields visibility conditions may read (defaults to the step's own).
+export const validateStepDefinition = (
+  step: Step,
+  flowFields: FormField[] = step.fields
+): StepValidationResult => {
+  const errors: string[] = [];
+
+  step.fields.forEach((field) => {
+    errors.push(...validateFieldDefinition(field));
+  });
+
+  // Group children share the step's answers, so IDs must be unique across
+  // the whole page
+  const seenIds = new Set<string>();
+  flattenFields(step.fields).forEach((field) => {
+    if (seenIds.has(field.id)) {
+      errors.push(`Field ID "${field.id}" is used more than once`);
+    }
+    seenIds.add(field.id);
+  });
+
+  flattenFields(step.fields).forEach((field) => {
+    errors.push(...checkVisibilityCondition(field, flowFields));
+  });
+
+  checkExpression(
+    step.summaryCheckExpression || "true",
+    step.fields
+  ).errors.forEach((error) => errors.push(`Page check: ${error}`));
+
+  return { valid: errors.length === 0, errors };
+};
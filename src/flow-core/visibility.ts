@@ -0,0 +1,352 @@
+import {
+  CHOICE_FIELD_TYPES,
+  DATE_FIELD_TYPES,
+  NUMERIC_FIELD_TYPES,
+  findParentGroup,
+  flattenFields,
+  isEmptyAnswer,
+} from "./fields";
+import type {
+  ConditionGroup,
+  ConditionOperator,
+  FieldCondition,
+  FormField,
+  StepAnswers,
+} from "./types";
+
+export const CONDITION_OPERATORS: {
+  value: ConditionOperator;
+  label: string;
+  // false for operators that only look at whether there is an answer
+  takesValue: boolean;
+}[] = [
+  { value: "equals", label: "equals", takesValue: true },
+  { value: "notEquals", label: "does not equal", takesValue: true },
+  { value: "in", label: "is one of", takesValue: true },
+  { value: "contains", label: "contains", takesValue: true },
+  { value: "greaterThan", label: "is greater than", takesValue: true },
+  { value: "lessThan", label: "is less than", takesValue: true },
+  { value: "isEmpty", label: "is empty", takesValue: false },
+  { value: "isAnswered", label: "is answered", takesValue: false },
+];
+
+export const isConditionGroup = (
+  item: FieldCondition | ConditionGroup
+): item is ConditionGroup => "combinator" in item;
+
+// Operators that make sense for answers of the given field
+export const getConditionOperators = (
+  field: FormField
+): ConditionOperator[] => {
+  if (field.type === "title" || field.type === "group") return [];
+  if (["file", "signature", "repeater"].includes(field.type)) {
+    return ["isEmpty", "isAnswered"];
+  }
+  if (field.type === "checkbox") {
+    return ["contains", "in", "isEmpty", "isAnswered"];
+  }
+  if (
+    NUMERIC_FIELD_TYPES.includes(field.type) ||
+    DATE_FIELD_TYPES.includes(field.type) ||
+    field.type === "calculated"
+  ) {
+    return [
+      "equals",
+      "notEquals",
+      "in",
+      "greaterThan",
+      "lessThan",
+      "isEmpty",
+      "isAnswered",
+    ];
+  }
+  if (CHOICE_FIELD_TYPES.includes(field.type)) {
+    return ["equals", "notEquals", "in", "isEmpty", "isAnswered"];
+  }
+  return ["equals", "notEquals", "in", "contains", "isEmpty", "isAnswered"];
+};
+
+/**
+ * The conditions that decide whether a field is shown, or null when it is
+ * always shown. Fields from older flows with a single dependsOn/showWhen
+ * pair get the equivalent one-condition group ("contains" for checkboxes).
+ */
+export const getVisibilityCondition = (
+  field: FormField,
+  fields: FormField[]
+): ConditionGroup | null => {
+  if (field.visibleWhen) {
+    return field.visibleWhen.conditions.length > 0 ? field.visibleWhen : null;
+  }
+  if (!field.dependsOn || !field.showWhen) return null;
+
+  const parentField = flattenFields(fields).find(
+    (f) => f.id === field.dependsOn
+  );
+  return {
+    combinator: "and",
+    conditions: [
+      {
+        fieldId: field.dependsOn,
+        operator: parentField?.type === "checkbox" ? "contains" : "equals",
+        value: field.showWhen,
+      },
+    ],
+  };
+};
+
+// Every field ID a condition group reads, nested groups included
+export const getConditionFieldIds = (group: ConditionGroup): string[] => [
+  ...new Set(
+    group.conditions.flatMap((item) =>
+      isConditionGroup(item) ? getConditionFieldIds(item) : [item.fieldId]
+    )
+  ),
+];
+
+// The group without conditions on `fieldId` (e.g. after it is deleted);
+// groups left empty are dropped, and undefined means nothing is left
+export const removeConditionField = (
+  group: ConditionGroup,
+  fieldId: string
+): ConditionGroup | undefined => {
+  const conditions = group.conditions.flatMap<FieldCondition | ConditionGroup>(
+    (item) => {
+      if (!isConditionGroup(item)) {
+        return item.fieldId === fieldId ? [] : [item];
+      }
+      const rest = removeConditionField(item, fieldId);
+      return rest ? [rest] : [];
+    }
+  );
+  return conditions.length > 0 ? { ...group, conditions } : undefined;
+};
+
+// The group with conditions on `fieldId` reading `newId` instead (e.g. after
+// the field is renamed)
+export const renameConditionField = (
+  group: ConditionGroup,
+  fieldId: string,
+  newId: string
+): ConditionGroup => ({
+  ...group,
+  conditions: group.conditions.map((item) =>
+    isConditionGroup(item)
+      ? renameConditionField(item, fieldId, newId)
+      : item.fieldId === fieldId
+      ? { ...item, fieldId: newId }
+      : item
+  ),
+});
+
+// Condition values are typed as text, so numbers and booleans compare by
+// their text too
+const matchesValue = (answer: unknown, value: string): boolean =>
+  typeof answer === "number"
+    ? value.trim() !== "" && answer === Number(value)
+    : typeof answer === "boolean"
+    ? String(answer) === value
+    : answer === value;
+
+// Ordering for greater/less than: numbers numerically, other text (ISO
+// dates and times) alphabetically. null when there is nothing to compare.
+const compareAnswer = (answer: unknown, value: string): number | null => {
+  if (isEmptyAnswer(answer) || value.trim() === "") return null;
+
+  const answerNumber = typeof answer === "number" ? answer : Number(answer);
+  if (typeof answer !== "boolean" && Number.isFinite(answerNumber)) {
+    const valueNumber = Number(value);
+    return Number.isFinite(valueNumber) ? answerNumber - valueNumber : null;
+  }
+  if (typeof answer !== "string") return null;
+  return answer < value ? -1 : answer > value ? 1 : 0;
+};
+
+export const evaluateCondition = (
+  condition: FieldCondition,
+  answers: StepAnswers
+): boolean => {
+  const answer = answers[condition.fieldId];
+  const values = Array.isArray(condition.value)
+    ? condition.value
+    : [condition.value ?? ""];
+  const value = values[0] ?? "";
+
+  switch (condition.operator) {
+    case "equals":
+    case "notEquals": {
+      // A list answer equals a value when that is its only item
+      const equal = Array.isArray(answer)
+        ? answer.length === 1 && matchesValue(answer[0], value)
+        : matchesValue(answer, value);
+      return condition.operator === "equals" ? equal : !equal;
+    }
+    case "in":
+      return Array.isArray(answer)
+        ? answer.some((item) => values.some((v) => matchesValue(item, v)))
+        : values.some((v) => matchesValue(answer, v));
+    case "contains":
+      if (Array.isArray(answer)) {
+        return answer.some((item) => matchesValue(item, value));
+      }
+      return typeof answer === "string" && value !== ""
+        ? answer.includes(value)
+        : false;
+    case "greaterThan": {
+      const order = compareAnswer(answer, value);
+      return order !== null && order > 0;
+    }
+    case "lessThan": {
+      const order = compareAnswer(answer, value);
+      return order !== null && order < 0;
+    }
+    case "isEmpty":
+      return isEmptyAnswer(answer);
+    case "isAnswered":
+      return !isEmptyAnswer(answer);
+    default:
+      return false;
+  }
+};
+
+// AND needs every condition, OR any one; an empty group always holds
+export const evaluateConditionGroup = (
+  group: ConditionGroup,
+  answers: StepAnswers
+): boolean => {
+  if (group.conditions.length === 0) return true;
+
+  const holds = (item: FieldCondition | ConditionGroup) =>
+    isConditionGroup(item)
+      ? evaluateConditionGroup(item, answers)
+      : evaluateCondition(item, answers);
+  return group.combinator === "or"
+    ? group.conditions.some(holds)
+    : group.conditions.every(holds);
+};
+
+// Problems with a field's conditions - `fields` are those it may refer to
+// (the page's own, or every field of the flow)
+export const checkVisibilityCondition = (
+  field: FormField,
+  fields: FormField[]
+): string[] => {
+  const group = getVisibilityCondition(field, fields);
+  if (!group) return [];
+
+  const available = flattenFields(fields);
+  const errors: string[] = [];
+  const visit = (item: FieldCondition | ConditionGroup) => {
+    if (isConditionGroup(item)) {
+      if (item.conditions.length === 0) {
+        errors.push(`"${field.title}" has an empty condition group`);
+      }
+      item.conditions.forEach(visit);
+      return;
+    }
+
+    if (!item.fieldId) {
+      errors.push(`"${field.title}" has a condition with no field picked`);
+      return;
+    }
+    if (item.fieldId === field.id) {
+      errors.push(`"${field.title}" cannot depend on itself`);
+      return;
+    }
+    const source = available.find((f) => f.id === item.fieldId);
+    if (!source) {
+      errors.push(
+        `"${field.title}" depends on "${item.fieldId}", which does not exist`
+      );
+      return;
+    }
+
+    const operator = CONDITION_OPERATORS.find(
+      (op) => op.value === item.operator
+    );
+    if (!operator || !getConditionOperators(source).includes(item.operator)) {
+      errors.push(
+        `"${field.title}" uses "${
+          operator?.label ?? item.operator
+        }", which does not apply to "${source.title}"`
+      );
+      return;
+    }
+    const values = Array.isArray(item.value) ? item.value : [item.value ?? ""];
+    if (operator.takesValue && values.every((v) => v.trim() === "")) {
+      errors.push(
+        `"${field.title}" condition on "${source.title}" needs a value`
+      );
+    } else if (
+      (item.operator === "greaterThan" || item.operator === "lessThan") &&
+      NUMERIC_FIELD_TYPES.includes(source.type) &&
+      !Number.isFinite(Number(values[0]))
+    ) {
+      errors.push(
+        `"${field.title}" condition on "${source.title}" needs a number`
+      );
+    }
+  };
+  group.conditions.forEach(visit);
+  return errors;
+};
+
+// Field visibility logic - `fields` are the fields of the step being answered.
+// Conditions may read earlier pages: pass their answers merged under the
+// page's own (see buildFormulaScope) and every field of the flow as
+// `flowFields`. Fields inside a hidden group are hidden too, and so are
+// fields whose conditions refer to fields that do not exist.
+export const isFieldVisible = (
+  field: FormField,
+  fields: FormField[],
+  answers: StepAnswers,
+  flowFields: FormField[] = fields
+): boolean => {
+  const group = findParentGroup(field.id, fields);
+  if (group && !isFieldVisible(group, fields, answers, flowFields)) {
+    return false;
+  }
+
+  const condition = getVisibilityCondition(field, flowFields);
+  if (!condition) return true;
+
+  const available = flattenFields(flowFields);
+  if (
+    getConditionFieldIds(condition).some(
+      (id) => !available.some((f) => f.id === id)
+    )
+  ) {
+    return false;
+  }
+
+  return evaluateConditionGroup(condition, answers);
+};
+
+// Readable summary, e.g. `Kind equals "A" and (Age is greater than "18" or
+// Email is answered)`
+export const describeConditionGroup = (
+  group: ConditionGroup,
+  fields: FormField[]
+): string => {
+  const available = flattenFields(fields);
+  const describe = (item: FieldCondition | ConditionGroup): string => {
+    if (isConditionGroup(item)) {
+      return item.conditions.length > 1
+        ? `(${describeConditionGroup(item, fields)})`
+        : describeConditionGroup(item, fields);
+    }
+    const title =
+      available.find((f) => f.id === item.fieldId)?.title || item.fieldId;
+    const operator = CONDITION_OPERATORS.find(
+      (op) => op.value === item.operator
+    );
+    if (!operator?.takesValue) {
+      return `${title} ${operator?.label ?? item.operator}`;
+    }
+    const values = Array.isArray(item.value) ? item.value : [item.value ?? ""];
+    return `${title} ${operator.label} ${values
+      .map((value) => `"${value}"`)
+      .join(", ")}`;
+  };
+  return group.conditions.map(describe).join(` ${group.combinator} `);
+};
@@ -1,92 +1,75 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import { type FC } from "react";
 // import { Retool } from "@tryretool/custom-component-support";
-
-// Enhanced Types
-interface FormField {
-  id: string;
-  type:
-    | "title"
-    | "text"
-    | "textarea"
-    | "select"
-    | "radio"
-    | "checkbox"
-    | "file"
-    | "readonly";
-  title: string;
-  required: boolean;
-  placeholder?: string;
-  options?: string[];
-  defaultValue?: string | unknown;
-  readOnly?: boolean;
-  widget?: string;
-  dependsOn?: string;
-  showWhen?: string;
-  acceptedFileTypes?: string[];
-  maxFileSize?: number;
-  multiple?: boolean;
-  captureMode?: "user" | "environment" | "none";
-}
-
-interface NavigationRule {
-  fieldId: string;
-  conditions: Array<{
-    value: string;
-    nextStepName: string;
-  }>;
-  defaultStepName?: string;
-}
-
-interface Step {
-  id: string;
-  name: string;
-  description: string;
-  fields: FormField[];
-  actionName: string;
-  navigationRule?: NavigationRule;
-  summaryCheckExpression: string;
-}
-
-interface SavedFlow {
-  id: string;
-  name: string;
-  description: string;
-  steps: Step[];
-  created_at: string;
-  updated_at: string;
-}
-
-interface TemplateContext {
-  workorder?: {
-    scopeOfWork?: string;
-    clientDescription?: string;
-    priority?: string;
-    location?: string;
-  };
-  client?: {
-    name?: string;
-    email?: string;
-    phone?: string;
-  };
-  technician?: {
-    name?: string;
-    id?: string;
-    trade?: string;
-  };
-}
-
-// Field Types Configuration
-const FIELD_TYPES = [
-  { type: "title", label: "Title/Heading", icon: "📋" },
-  { type: "text", label: "Text Input", icon: "📝" },
-  { type: "textarea", label: "Long Text", icon: "📄" },
-  { type: "select", label: "Dropdown", icon: "📋" },
-  { type: "radio", label: "Radio Buttons", icon: "⚪" },
-  { type: "checkbox", label: "Checkboxes", icon: "☑️" },
-  { type: "file", label: "File Upload", icon: "📎" },
-  { type: "readonly", label: "Read-only Text", icon: "🔒" },
-];
+import {
+  CHOICE_FIELD_TYPES,
+  DATE_FIELD_TYPES,
+  DATE_FORMAT_HINTS,
+  GROUP_CHILD_TYPES,
+  NAVIGATION_KEYWORDS,
+  NUMERIC_FIELD_TYPES,
+  PATTERN_PRESETS,
+  REPEATER_COLUMN_TYPES,
+  TEXT_FIELD_TYPES,
+  applyCalculatedFields,
+  buildFlowBundle,
+  buildFormulaScope,
+  checkExpression,
+  checkStepExpressions,
+  checkStepFormulas,
+  compileFieldPattern,
+  checkStepIdentifiers,
+  checkVisibilityCondition,
+  convertToExpression,
+  describeConditionGroup,
+  describeNavigationTarget,
+  findMatchingCondition,
+  findParentGroup,
+  findPatternPreset,
+  flattenFields,
+  generateAllSchemas,
+  getInitialAnswers,
+  getVisibilityCondition,
+  getConditionOperators,
+  getDefaultWidget,
+  getUniqueFieldId,
+  getFieldAnswerType,
+  isFieldVisible as isFieldVisibleIn,
+  isEmptyAnswer,
+  isNavigationKeyword,
+  lintFlow,
+  migrateNavigationRules,
+  parseFlowImport,
+  processTemplateValue,
+  removeFieldReferences,
+  renameField,
+  resolveDateValue,
+  resolveDefaultValue,
+  resolveNextStep,
+  retargetNavigationRules,
+  validateStepAnswers,
+  validateStepDefinition,
+  type FieldErrors,
+  type FlowAnswers,
+  type FlowBundle,
+  type FlowLintIssue,
+  type FormField,
+  type ImportIssue,
+  type NavigationRule,
+  type SavedFlow,
+  type Step,
+  type StepAnswers,
+  type TemplateContext,
+  type ValidationMessageKey,
+} from "./flow-core";
+import { localFlowStorage, type FlowStorage } from "./storage";
+import { FIELD_TYPES } from "./fieldTypes";
+import { ChildFieldsEditor } from "./ChildFieldsEditor";
+import { ConditionEditor } from "./ConditionEditor";
+import { FieldErrorList, FieldInput } from "./FieldInput";
+import { FieldIdInput } from "./FieldIdInput";
+import { FlowGraph } from "./FlowGraph";
+import { FlowSimulator } from "./FlowSimulator";
 
 const TEMPLATE_SUGGESTIONS = [
   "#workorder.scopeOfWork",
@@ -101,11 +84,62 @@ const TEMPLATE_SUGGESTIONS = [
   "#technician.trade",
 ];
 
-export const FormBuilder: FC = () => {
+// Undo history limits
+const HISTORY_LIMIT = 100;
+const HISTORY_GROUP_WINDOW_MS = 1000;
+
+// Template data shown in preview when the host does not provide any
+const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = {
+  workorder: {
+    scopeOfWork: "Sample work order description",
+    clientDescription: "Sample client description",
+    priority: "High",
+    location: "Sample location",
+  },
+  client: {
+    name: "John Doe",
+    email: "john.doe@example.com",
+    phone: "(555) 123-4567",
+  },
+  technician: {
+    name: "Jane Smith",
+    id: "TECH001",
+    trade: "Electrician",
+  },
+};
+
+export interface FormBuilderProps {
+  // Flow loaded into the designer on mount
+  initialFlow?: SavedFlow;
+  // Called with the full Step[] whenever the flow changes
+  onChange?: (steps: Step[]) => void;
+  // When set, saving hands the flow to the host instead of `storage`
+  onSave?: (flow: SavedFlow) => void | Promise<void>;
+  // When set, "Export JSON" hands the bundle to the host instead of downloading
+  onExport?: (bundle: FlowBundle) => void;
+  // Show the flow without any editing controls (preview still works)
+  readOnly?: boolean;
+  // Data for "#workorder.priority"-style templates, or a function returning it
+  templateContext?: TemplateContext | (() => TemplateContext);
+  // Where "Local Saved Flows" are persisted (defaults to localStorage)
+  storage?: FlowStorage;
+}
+
+export const FormBuilder: FC<FormBuilderProps> = ({
+  initialFlow,
+  onChange,
+  onSave,
+  onExport,
+  readOnly = false,
+  templateContext = SAMPLE_TEMPLATE_CONTEXT,
+  storage = localFlowStorage,
+}) => {
   // ✅ ALL HOOKS FIRST - BEFORE ANY CONDITIONAL RETURNS
 
   // State Management - Fixed with proper initialization
-  const [steps, setSteps] = useState<Step[]>([]);
+  const [steps, setSteps] = useState<Step[]>(() =>
+    migrateNavigationRules(initialFlow?.steps || [])
+  );
 
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
 
@@ -115,15 +149,53 @@ export const FormBuilder: FC = () => {
   const [showTemplateHelper, setShowTemplateHelper] = useState<boolean>(false);
   const [hasUnsavedWork, setHasUnsavedWork] = useState<boolean>(false);
   const [showFlowManager, setShowFlowManager] = useState<boolean>(false);
-  const [currentFlowName, setCurrentFlowName] =
-    useState<string>("New Form Flow");
+  const [showNavigationEditor, setShowNavigationEditor] =
+    useState<boolean>(false);
+  const [showLintPanel, setShowLintPanel] = useState<boolean>(false);
+  const [showFlowGraph, setShowFlowGraph] = useState<boolean>(false);
+  const [showSimulator, setShowSimulator] = useState<boolean>(false);
+  const [currentFlowName, setCurrentFlowName] = useState<string>(
+    () => initialFlow?.name || "New Form Flow"
+  );
+  // Kept as loaded so saving and exporting do not replace it
+  const [currentFlowDescription, setCurrentFlowDescription] = useState<string>(
+    () => initialFlow?.description || ""
+  );
   const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
   const [jsonOutput, setJsonOutput] = useState<string>("");
   const [previewMode, setPreviewMode] = useState<boolean>(false);
-  const [previewData, setPreviewData] = useState<Record<string, unknown>>({});
+  // Preview answers for every page (keyed by step ID) and the pages visited
+  // before the current one, so Previous retraces the route actually taken
+  const [previewAnswers, setPreviewAnswers] = useState<FlowAnswers>({});
+  const [previewHistory, setPreviewHistory] = useState<number[]>([]);
+  // Which preview errors are on screen: every field on the page after a
+  // failed Next, otherwise only the fields the user has left
+  const [previewErrorScope, setPreviewErrorScope] = useState<{
+    stepId: string;
+    fieldIds: string[] | "all";
+  } | null>(null);
   const [saveStatus, setSaveStatus] = useState<string>("");
-  const [isNewFlow, setIsNewFlow] = useState<boolean>(true);
+  const [isNewFlow, setIsNewFlow] = useState<boolean>(!initialFlow);
   const [componentReady, setComponentReady] = useState(false);
+  const [importReport, setImportReport] = useState<{
+    fileName: string;
+    imported: boolean;
+    issues: ImportIssue[];
+  } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Undo/redo snapshots of the steps array (edits never mutate steps in place)
+  const [history, setHistory] = useState<{ past: Step[][]; future: Step[][] }>({
+    past: [],
+    future: [],
+  });
+  const lastEditRef = useRef<{ group?: string; time: number }>({ time: 0 });
+  const lastReportedStepsRef = useRef<Step[] | null>(null);
+  // Identity handed to onSave, so the host sees one flow across saves
+  const hostFlowRef = useRef({
+    id: initialFlow?.id || Date.now().toString(),
+    created_at: initialFlow?.created_at || new Date().toISOString(),
+  });
 
   // Parse state data with proper error handling
   const parsedSteps: Step[] = React.useMemo(() => {
@@ -160,6 +232,12 @@ export const FormBuilder: FC = () => {
     }
   }, [steps, isNewFlow]);
 
+  // Flow-wide problems, shown in the header and the Flow Check panel
+  const flowIssues: FlowLintIssue[] = React.useMemo(
+    () => lintFlow(parsedSteps),
+    [parsedSteps]
+  );
+
   const parsedSavedFlows: SavedFlow[] = React.useMemo(() => {
     try {
       return savedFlows;
@@ -191,23 +269,56 @@ export const FormBuilder: FC = () => {
     }
   }, [parsedSteps]);
 
-  // Utility function to update steps with change tracking
+  // Report every new steps array to the host exactly once
+  useEffect(() => {
+    if (!onChange || lastReportedStepsRef.current === parsedSteps) return;
+
+    const isInitialReport = lastReportedStepsRef.current === null;
+    lastReportedStepsRef.current = parsedSteps;
+    if (!isInitialReport) onChange(parsedSteps);
+  }, [parsedSteps, onChange]);
+
+  // Utility function to update steps with change tracking. Edits sharing a
+  // historyGroup within HISTORY_GROUP_WINDOW_MS collapse into one undo entry.
   const updateSteps = useCallback(
-    (newSteps: Step[]) => {
+    (newSteps: Step[], historyGroup?: string) => {
+      if (readOnly) return;
+
       console.log("🔄 Updating steps:", newSteps.length);
+
+      const now = Date.now();
+      const lastEdit = lastEditRef.current;
+      const grouped =
+        historyGroup !== undefined &&
+        lastEdit.group === historyGroup &&
+        now - lastEdit.time < HISTORY_GROUP_WINDOW_MS;
+      lastEditRef.current = { group: historyGroup, time: now };
+
+      setHistory((prev) => ({
+        past: grouped
+          ? prev.past
+          : [...prev.past, parsedSteps].slice(-HISTORY_LIMIT),
+        future: [],
+      }));
       setSteps(newSteps);
       setHasUnsavedWork(true);
     },
-    [setSteps]
+    [parsedSteps, readOnly]
   );
 
+  const resetHistory = useCallback(() => {
+    setHistory({ past: [], future: [] });
+    lastEditRef.current = { time: 0 };
+  }, []);
+
   // Auto-save functionality
   useEffect(() => {
     const autoSave = setTimeout(() => {
-      if (parsedSteps.length > 0 && hasUnsavedWork && !isNewFlow) {
+      if (parsedSteps.length > 0 && hasUnsavedWork && !isNewFlow && !onSave) {
         const autoSaveData = {
           steps: parsedSteps,
           flowName: currentFlowName,
+          flowDescription: currentFlowDescription,
           timestamp: new Date().toISOString(),
         };
         localStorage.setItem(
@@ -219,7 +330,14 @@ export const FormBuilder: FC = () => {
     }, 30000);
 
     return () => clearTimeout(autoSave);
-  }, [parsedSteps, hasUnsavedWork, isNewFlow, currentFlowName]);
+  }, [
+    parsedSteps,
+    hasUnsavedWork,
+    isNewFlow,
+    currentFlowName,
+    currentFlowDescription,
+    onSave,
+  ]);
 
   // Load auto-saved work on mount
   useEffect(() => {
@@ -237,8 +355,10 @@ export const FormBuilder: FC = () => {
             ).toLocaleString()}. Recover it?`
           );
           if (recover) {
-            setSteps(savedData.steps);
+            setSteps(migrateNavigationRules(savedData.steps));
+            resetHistory();
             setCurrentFlowName(savedData.flowName || "Recovered Flow");
+            setCurrentFlowDescription(savedData.flowDescription || "");
             setHasUnsavedWork(true);
             setIsNewFlow(false);
             localStorage.removeItem("formBuilder_autoSave");
@@ -255,10 +375,34 @@ export const FormBuilder: FC = () => {
     }
   }, []);
 
+  // Load persisted flows whenever the storage backend changes
+  useEffect(() => {
+    let cancelled = false;
+
+    storage
+      .listFlows()
+      .then((flows) => {
+        if (!cancelled) setSavedFlows(flows);
+      })
+      .catch((error) => {
+        console.error("Failed to load saved flows:", error);
+        if (!cancelled) {
+          setSaveStatus("❌ Could not load saved flows");
+          setTimeout(() => setSaveStatus(""), 3000);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+
   // Preview mode effects
   useEffect(() => {
     if (previewMode) {
-      setPreviewData({});
+      setPreviewAnswers({});
+      setPreviewHistory([]);
+      setPreviewErrorScope(null);
       setSelectedFieldId(null);
       console.log("🔄 Preview mode activated");
     }
@@ -275,10 +419,25 @@ export const FormBuilder: FC = () => {
         return;
       }
 
+      // Ctrl/Cmd + Z = Undo, Ctrl/Cmd + Shift + Z (or Ctrl + Y) = Redo
+      if ((e.ctrlKey || e.metaKey) && !previewMode && !readOnly) {
+        const key = e.key.toLowerCase();
+        if (key === "z" && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+          return;
+        }
+        if ((key === "z" && e.shiftKey) || key === "y") {
+          e.preventDefault();
+          redo();
+          return;
+        }
+      }
+
       // Ctrl/Cmd + S = Save locally
       if ((e.ctrlKey || e.metaKey) && e.key === "s") {
         e.preventDefault();
-        if (parsedSteps.length > 0) {
+        if (parsedSteps.length > 0 && !readOnly) {
           saveCurrentFlow();
         }
       }
@@ -286,7 +445,7 @@ export const FormBuilder: FC = () => {
       // Ctrl/Cmd + N = New Flow
       if ((e.ctrlKey || e.metaKey) && e.key === "n") {
         e.preventDefault();
-        createNewFlow();
+        if (!readOnly) createNewFlow();
       }
 
       // P = Toggle Preview
@@ -299,10 +458,11 @@ export const FormBuilder: FC = () => {
       if (e.key === "Escape") {
         setSelectedFieldId(null);
         setShowTemplateHelper(false);
+        setShowNavigationEditor(false);
       }
 
       // Delete = Delete selected field
-      if (e.key === "Delete" && selectedFieldId && !previewMode) {
+      if (e.key === "Delete" && selectedFieldId && !previewMode && !readOnly) {
         e.preventDefault();
         if (confirm("Delete selected field?")) {
           deleteField(selectedFieldId);
@@ -312,7 +472,15 @@ export const FormBuilder: FC = () => {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedFieldId, previewMode, parsedSteps, currentFlowName]);
+  }, [
+    selectedFieldId,
+    previewMode,
+    parsedSteps,
+    currentFlowName,
+    currentFlowDescription,
+    history,
+    readOnly,
+  ]);
 
   // ✅ EARLY RETURN AFTER ALL HOOKS
   if (!componentReady) {
@@ -338,6 +506,9 @@ export const FormBuilder: FC = () => {
 
   // ✅ ALL FUNCTIONS AFTER HOOKS AND BEFORE RENDER
 
+  // Editing controls are hidden in preview and for read-only hosts
+  const canEdit = !previewMode && !readOnly;
+
   // Generate meaningful field IDs
   const generateMeaningfulId = (title: string, type: string): string => {
     const cleanTitle = title
@@ -363,265 +534,53 @@ export const FormBuilder: FC = () => {
     return cleanTitle || `${type}Field${suffix}_${Date.now()}`;
   };
 
-  const getDefaultWidget = (type: string): string => {
-    const widgets: Record<string, string> = {
-      text: "text",
-      textarea: "textarea",
-      select: "select",
-      radio: "radio",
-      checkbox: "checkboxes",
-      file: "file",
-      readonly: "textarea",
-    };
-    return widgets[type] || "text";
-  };
-
-  // Template processing functions
-  const processTemplateValue = (value: any, context: TemplateContext): any => {
-    if (typeof value !== "string" || !value.startsWith("#")) {
-      return value;
-    }
-
-    try {
-      const path = value.substring(1);
-      const keys = path.split(".");
-      let result: any = context;
-
-      for (const key of keys) {
-        if (result && typeof result === "object" && key in result) {
-          result = result[key];
-        } else {
-          return value;
-        }
-      }
-
-      return result || value;
-    } catch (error) {
-      console.warn("Template processing error:", error);
-      return value;
-    }
-  };
-
-  const buildTemplateContext = (): TemplateContext => {
-    return {
-      workorder: {
-        scopeOfWork: "Sample work order description",
-        clientDescription: "Sample client description",
-        priority: "High",
-        location: "Sample location",
-      },
-      client: {
-        name: "John Doe",
-        email: "john.doe@example.com",
-        phone: "(555) 123-4567",
-      },
-      technician: {
-        name: "Jane Smith",
-        id: "TECH001",
-        trade: "Electrician",
-      },
-    };
-  };
-
-  // Enhanced form data generation
-  const generateFormData = (fields: FormField[]): object => {
-    const formData: any = {};
-
-    fields.forEach((field) => {
-      if (field.type === "title") return;
-
-      if (field.defaultValue !== undefined && field.defaultValue !== null) {
-        formData[field.id] = field.defaultValue;
-      } else {
-        switch (field.type) {
-          case "checkbox":
-            formData[field.id] = [];
-            break;
-          case "file":
-            formData[field.id] = field.multiple ? [] : null;
-            break;
-          case "text":
-          case "textarea":
-          case "select":
-          case "radio":
-          case "readonly":
-          default:
-            formData[field.id] = "";
-            break;
-        }
-      }
-    });
-
-    return formData;
-  };
-
-  // Enhanced schema generation with proper form data
-  const generateAllSchemas = () => {
-    if (!currentStep)
-      return { jsonSchema: {}, uiSchema: {}, formData: {}, actionSchema: {} };
-
-    const jsonSchema = {
-      type: "object" as const,
-      description: currentStep.description,
-      properties: {} as Record<string, any>,
-      required: [] as string[],
-    };
-
-    const uiSchema = {
-      "ui:order": [] as string[],
-      "ui:submitButtonOptions": {
-        submitText: "Continue",
-        norender: false,
-      },
-    } as Record<string, any>;
-
-    const formData = generateFormData(currentStep.fields);
-
-    currentStep.fields.forEach((field: FormField) => {
-      if (field.type === "title") return;
-
-      const property: any = {
-        title: field.title,
-        type:
-          field.type === "checkbox"
-            ? "array"
-            : field.type === "file"
-            ? "string"
-            : "string",
-      };
-
-      // Enhanced property configuration
-      if (field.type === "checkbox") {
-        property.items = {
-          type: "string",
-          enum: field.options || [],
-        };
-        property.uniqueItems = true;
-      } else if (["radio", "select"].includes(field.type)) {
-        property.enum = field.options || [];
-      } else if (field.type === "file") {
-        property.format = "data-url";
-        property.description = `Max size: ${field.maxFileSize || 10}MB`;
-      }
-
-      if (field.defaultValue !== undefined && field.type !== "readonly") {
-        property.default = field.defaultValue;
-      }
-
-      if (field.readOnly || field.type === "readonly") {
-        property.readOnly = true;
-      }
-
-      jsonSchema.properties[field.id] = property;
-
-      if (field.required) {
-        jsonSchema.required.push(field.id);
-      }
-
-      // Enhanced UI Schema
-      const uiConfig: any = {
-        "ui:widget": getDefaultWidget(field.type),
-      };
-
-      if (field.placeholder) {
-        uiConfig["ui:placeholder"] = field.placeholder;
-      }
-
-      if (field.readOnly || field.type === "readonly") {
-        uiConfig["ui:readonly"] = true;
-      }
-
-      // UI options for different field types
-      if (field.type === "radio") {
-        uiConfig["ui:widget"] = "radio";
-        uiConfig["ui:options"] = {
-          inline: false,
-          enumOptions:
-            field.options?.map((opt) => ({
-              value: opt,
-              label: opt,
-            })) || [],
-        };
-      } else if (field.type === "checkbox") {
-        uiConfig["ui:widget"] = "checkboxes";
-        uiConfig["ui:options"] = {
-          inline: false,
-          enumOptions:
-            field.options?.map((opt) => ({
-              value: opt,
-              label: opt,
-            })) || [],
-        };
-      } else if (field.type === "select") {
-        uiConfig["ui:widget"] = "select";
-        uiConfig["ui:options"] = {
-          enumOptions: [
-            { value: "", label: "Choose an option..." },
-            ...(field.options?.map((opt) => ({
-              value: opt,
-              label: opt,
-            })) || []),
-          ],
-        };
-      } else if (field.type === "textarea") {
-        uiConfig["ui:widget"] = "textarea";
-        uiConfig["ui:options"] = {
-          rows: 4,
-        };
-      } else if (field.type === "file") {
-        uiConfig["ui:widget"] = "file";
-        uiConfig["ui:options"] = {
-          accept: field.acceptedFileTypes?.join(",") || "*/*",
-          multiple: field.multiple || false,
-        };
-      }
-
-      uiSchema[field.id] = uiConfig;
-      uiSchema["ui:order"].push(field.id);
-    });
-
-    const actionSchema = {
-      actionName: currentStep.actionName,
-      summaryCheckExpression: currentStep.summaryCheckExpression || "true",
-      nextFlowDeterminationExpression: currentStep.navigationRule
-        ? convertToExpression(currentStep.navigationRule)
-        : "'continue'",
-    };
-
-    return { jsonSchema, uiSchema, formData, actionSchema };
-  };
-
-  // Navigation rule conversion
-  const convertToExpression = (rule: NavigationRule): string => {
-    if (!rule.fieldId || !rule.conditions.length) return "'continue'";
+  const buildTemplateContext = (): TemplateContext =>
+    typeof templateContext === "function" ? templateContext() : templateContext;
+
+  // Answers of the pages visited in preview, calculated fields included, so
+  // formulas on later pages can read them
+  const previewRouteAnswers = previewHistory.reduce<StepAnswers[]>(
+    (previous, index) => {
+      const step = parsedSteps[index];
+      return step
+        ? [
+            ...previous,
+            applyCalculatedFields(
+              step,
+              previewAnswers[step.id] ?? {},
+              previous
+            ),
+          ]
+        : previous;
+    },
+    []
+  );
 
-    const field = currentStep?.fields.find(
-      (f: FormField) => f.id === rule.fieldId
-    );
-    if (!field) return "'continue'";
+  // Answers for the page on screen; preview starts from the same resolved
+  // defaults FormRunner uses
+  const previewData: StepAnswers = currentStep
+    ? applyCalculatedFields(
+        currentStep,
+        previewAnswers[currentStep.id] ??
+          (previewMode
+            ? getInitialAnswers(currentStep, buildTemplateContext())
+            : {}),
+        previewRouteAnswers
+      )
+    : {};
 
-    if (field.type === "checkbox") {
-      const conditions = rule.conditions
-        .map(
-          (cond: any) =>
-            `formData.${rule.fieldId}.includes('${cond.value}') ? '${cond.nextStepName}'`
-        )
-        .join(" : ");
-      return conditions + ` : '${rule.defaultStepName || "continue"}'`;
-    } else {
-      const conditions = rule.conditions
-        .map(
-          (cond: any) =>
-            `formData.${rule.fieldId} === '${cond.value}' ? '${cond.nextStepName}'`
-        )
-        .join(" : ");
-      return conditions + ` : '${rule.defaultStepName || "continue"}'`;
-    }
-  };
+  // Every field of the flow; conditions, branching and formulas may read
+  // answers from earlier pages
+  const flowFields = parsedSteps.flatMap((step) => step.fields);
+  // Preview answers as conditions and branching read them: the route so far
+  // with the page on screen on top
+  const previewScope = buildFormulaScope(previewRouteAnswers, previewData);
 
   // Generate schemas and export
   const generateSchemas = () => {
-    const schemas = generateAllSchemas();
+    if (!currentStep) return;
+
+    const schemas = generateAllSchemas(currentStep, flowFields);
 
     const output = {
       jsonSchema: schemas.jsonSchema,
@@ -644,32 +603,48 @@ export const FormBuilder: FC = () => {
       return;
     }
 
-    const flowData = {
+    const unsafeIds = parsedSteps.flatMap((step) =>
+      checkStepIdentifiers(step).map((error) => `${step.name}: ${error}`)
+    );
+    if (unsafeIds.length > 0) {
+      alert(
+        `Rename these fields in their settings before exporting:\n\n${unsafeIds.join(
+          "\n"
+        )}`
+      );
+      setSaveStatus("❌ Export blocked by unsafe field IDs");
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
+
+    const expressionProblems = parsedSteps.flatMap((step) =>
+      checkStepExpressions(step, flowFields).map(
+        (error) => `${step.name}: ${error}`
+      )
+    );
+    if (
+      expressionProblems.length > 0 &&
+      !confirm(
+        `Some expressions have problems:\n\n${expressionProblems.join(
+          "\n"
+        )}\n\nExport anyway?`
+      )
+    ) {
+      return;
+    }
+
+    const flowData = buildFlowBundle({
       name: currentFlowName,
-      description: `Form with ${parsedSteps.length} pages`,
-      version: "1.0",
-      created: new Date().toISOString(),
-      steps: parsedSteps.map((step, index) => {
-        const schemas = generateAllSchemas();
-        return {
-          id: step.id,
-          name: step.name,
-          description: step.description,
-          order: index + 1,
-          schemas: schemas,
-        };
-      }),
-      metadata: {
-        totalSteps: parsedSteps.length,
-        totalFields: parsedSteps.reduce(
-          (sum, step) => sum + step.fields.length,
-          0
-        ),
-        fieldTypes: Array.from(
-          new Set(parsedSteps.flatMap((step) => step.fields.map((f) => f.type)))
-        ),
-      },
-    };
+      description: currentFlowDescription,
+      steps: parsedSteps,
+    });
+
+    if (onExport) {
+      onExport(flowData);
+      setSaveStatus("📦 Flow exported");
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
 
     const dataStr = JSON.stringify(flowData, null, 2);
     const dataBlob = new Blob([dataStr], { type: "application/json" });
@@ -696,6 +671,25 @@ export const FormBuilder: FC = () => {
       .filter((option) => option.length > 0);
   };
 
+  // Starting columns for a new repeater field
+  const defaultRepeaterColumns = (): FormField[] => [
+    {
+      id: "item",
+      type: "text",
+      title: "Item",
+      required: true,
+      widget: getDefaultWidget("text"),
+    },
+    {
+      id: "quantity",
+      type: "number",
+      title: "Quantity",
+      required: true,
+      widget: getDefaultWidget("number"),
+      min: 0,
+    },
+  ];
+
   // Field management functions
   const addField = (fieldType: string) => {
     console.log(`➕ Adding field: ${fieldType}`);
@@ -752,9 +746,50 @@ export const FormBuilder: FC = () => {
         baseTitle = "Read-only Text";
         defaultValue = "";
         break;
+      case "number":
+        baseTitle = "Number";
+        defaultValue = undefined;
+        break;
+      case "integer":
+        baseTitle = "Whole Number";
+        defaultValue = undefined;
+        break;
+      case "date":
+        baseTitle = "Date";
+        defaultValue = undefined;
+        break;
+      case "time":
+        baseTitle = "Time";
+        defaultValue = undefined;
+        break;
+      case "datetime":
+        baseTitle = "Date and Time";
+        defaultValue = undefined;
+        break;
+      case "signature":
+        baseTitle = "Customer Signature";
+        defaultValue = undefined;
+        break;
+      case "repeater":
+        baseTitle = "Materials Used";
+        defaultValue = undefined;
+        break;
+      case "group":
+        baseTitle = "Section";
+        defaultValue = undefined;
+        break;
+      case "calculated":
+        baseTitle = "Total";
+        defaultValue = undefined;
+        break;
     }
 
-    const meaningfulId = generateMeaningfulId(baseTitle, fieldType);
+    // Conditions, routes and formulas read one answer scope for the whole
+    // flow, so the ID must not be taken on any page
+    const meaningfulId = getUniqueFieldId(
+      generateMeaningfulId(baseTitle, fieldType),
+      flattenFields(flowFields).map((f) => f.id)
+    );
 
     const newField: FormField = {
       id: meaningfulId,
@@ -774,6 +809,14 @@ export const FormBuilder: FC = () => {
       maxFileSize: fieldType === "file" ? 10 : undefined,
       multiple: fieldType === "file" ? false : undefined,
       captureMode: fieldType === "file" ? "none" : undefined,
+      fields:
+        fieldType === "repeater"
+          ? defaultRepeaterColumns()
+          : fieldType === "group"
+          ? []
+          : undefined,
+      minRows: fieldType === "repeater" ? 1 : undefined,
+      formula: fieldType === "calculated" ? "" : undefined,
     };
 
     const updatedSteps = [...parsedSteps];
@@ -783,7 +826,10 @@ export const FormBuilder: FC = () => {
     );
 
     if (updatedSteps[targetStepIndex]) {
-      updatedSteps[targetStepIndex].fields.push(newField);
+      updatedSteps[targetStepIndex] = {
+        ...updatedSteps[targetStepIndex],
+        fields: [...updatedSteps[targetStepIndex].fields, newField],
+      };
       updateSteps(updatedSteps);
       setSelectedFieldId(newField.id);
       console.log(`✅ Field added: ${newField.id}`);
@@ -799,7 +845,7 @@ export const FormBuilder: FC = () => {
     const fields = [...updatedSteps[currentStepIndex].fields];
     const [movedField] = fields.splice(fromIndex, 1);
     fields.splice(toIndex, 0, movedField);
-    updatedSteps[currentStepIndex].fields = fields;
+    updatedSteps[currentStepIndex] = { ...currentStep, fields };
     updateSteps(updatedSteps);
   };
 
@@ -813,7 +859,11 @@ export const FormBuilder: FC = () => {
   };
 
   // Enhanced field update
-  const updateField = (fieldId: string, updates: Partial<FormField>) => {
+  const updateField = (
+    fieldId: string,
+    updates: Partial<FormField>,
+    historyGroup?: string
+  ) => {
     if (!currentStep) return;
 
     console.log(`🔧 Updating field ${fieldId}:`, updates);
@@ -846,6 +896,17 @@ export const FormBuilder: FC = () => {
         updates.defaultValue = [];
       } else if (updates.type === "file") {
         updates.defaultValue = updates.multiple ? [] : null;
+      } else if (
+        NUMERIC_FIELD_TYPES.includes(updates.type) ||
+        DATE_FIELD_TYPES.includes(updates.type) ||
+        ["signature", "repeater", "group", "calculated"].includes(updates.type)
+      ) {
+        updates.defaultValue = undefined;
+      }
+
+      if (updates.type === "calculated") {
+        updates.required = false;
+        updates.formula = currentField.formula ?? "";
       } else if (
         ["text", "textarea", "select", "radio", "readonly"].includes(
           updates.type
@@ -854,6 +915,14 @@ export const FormBuilder: FC = () => {
         updates.defaultValue = "";
       }
 
+      if (!currentField.fields) {
+        if (updates.type === "repeater") {
+          updates.fields = defaultRepeaterColumns();
+        } else if (updates.type === "group") {
+          updates.fields = [];
+        }
+      }
+
       if (["select", "radio", "checkbox"].includes(updates.type)) {
         updates.options = updates.options || [
           "Option 1",
@@ -873,6 +942,18 @@ export const FormBuilder: FC = () => {
         updates.defaultValue = [];
       } else if (targetType === "file") {
         updates.defaultValue = currentField.multiple ? [] : null;
+      } else if (
+        NUMERIC_FIELD_TYPES.includes(targetType) &&
+        typeof updates.defaultValue === "string"
+      ) {
+        // Complete numbers are stored as numbers; "#template" defaults and
+        // half-typed input ("1.", "-") stay strings
+        const trimmed = updates.defaultValue.trim();
+        if (trimmed === "") {
+          updates.defaultValue = undefined;
+        } else if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+          updates.defaultValue = Number(trimmed);
+        }
       } else if (
         ["text", "textarea", "select", "radio", "readonly"].includes(
           targetType
@@ -883,16 +964,24 @@ export const FormBuilder: FC = () => {
       }
     }
 
-    updatedSteps[currentStepIndex].fields[fieldIndex] = {
+    const fields = [...currentStep.fields];
+    fields[fieldIndex] = {
       ...currentField,
       ...updates,
     };
+    updatedSteps[currentStepIndex] = { ...currentStep, fields };
 
-    console.log(
-      `✅ Field updated:`,
-      updatedSteps[currentStepIndex].fields[fieldIndex]
-    );
-    updateSteps(updatedSteps);
+    console.log(`✅ Field updated:`, fields[fieldIndex]);
+    updateSteps(updatedSteps, historyGroup);
+  };
+
+  // Field renaming; conditions, routes and formulas on every page follow
+  const renameSelectedField = (fieldId: string, newId: string) => {
+    if (!currentStep) return;
+
+    console.log(`🏷️ Renaming field: ${fieldId} → ${newId}`);
+    updateSteps(renameField(parsedSteps, currentStep.id, fieldId, newId));
+    setSelectedFieldId(newId);
   };
 
   // Field deletion with cleanup
@@ -900,23 +989,33 @@ export const FormBuilder: FC = () => {
     if (!currentStep) return;
 
     console.log(`🗑️ Deleting field: ${fieldId}`);
-    const updatedSteps = [...parsedSteps];
-    updatedSteps[currentStepIndex].fields = updatedSteps[
-      currentStepIndex
-    ].fields.filter((f: FormField) => f.id !== fieldId);
-
-    // Clean up navigation rules referencing deleted field
-    if (updatedSteps[currentStepIndex].navigationRule?.fieldId === fieldId) {
-      delete updatedSteps[currentStepIndex].navigationRule;
-    }
-
-    // Clean up dependent fields
-    updatedSteps[currentStepIndex].fields.forEach((field: FormField) => {
-      if (field.dependsOn === fieldId) {
-        field.dependsOn = undefined;
-        field.showWhen = undefined;
-      }
-    });
+    // A deleted group takes its children with it; IDs still used elsewhere
+    // keep their references
+    const remainingIds = flattenFields(
+      parsedSteps.flatMap((step, index) =>
+        index === currentStepIndex
+          ? step.fields.filter((f: FormField) => f.id !== fieldId)
+          : step.fields
+      )
+    ).map((f) => f.id);
+    const removedIds = flattenFields(
+      currentStep.fields.filter((f: FormField) => f.id === fieldId)
+    )
+      .map((f) => f.id)
+      .filter((id) => !remainingIds.includes(id));
+
+    // Clean up dependent fields and navigation rules on every page
+    const updatedSteps = removeFieldReferences(
+      parsedSteps.map((step, index) =>
+        index === currentStepIndex
+          ? {
+              ...step,
+              fields: step.fields.filter((f: FormField) => f.id !== fieldId),
+            }
+          : step
+      ),
+      removedIds
+    );
 
     updateSteps(updatedSteps);
     setSelectedFieldId(null);
@@ -926,8 +1025,13 @@ export const FormBuilder: FC = () => {
   // Enhanced step management
   const addStep = () => {
     const stepNumber = parsedSteps.length + 1;
+    // After a page is deleted the next number may still be taken
+    let idNumber = stepNumber;
+    while (parsedSteps.some((s) => s.id === `step${idNumber}`)) {
+      idNumber++;
+    }
     const newStep: Step = {
-      id: `step${stepNumber}`,
+      id: `step${idNumber}`,
       name: `Page ${stepNumber}`,
       description: `Page ${stepNumber} description`,
       fields: [],
@@ -949,11 +1053,25 @@ export const FormBuilder: FC = () => {
     }
 
     const stepName = parsedSteps[stepIndex]?.name || `Page ${stepIndex + 1}`;
-    if (!confirm(`Delete "${stepName}"? This cannot be undone.`)) {
+    if (!confirm(`Delete "${stepName}"? You can undo this with Ctrl+Z.`)) {
       return;
     }
 
-    const updatedSteps = parsedSteps.filter((_, index) => index !== stepIndex);
+    // Routes to the deleted page continue to the next page instead, and
+    // conditions and rules on other pages stop reading its fields
+    const remainingSteps = parsedSteps.filter(
+      (_, index) => index !== stepIndex
+    );
+    const remainingIds = flattenFields(
+      remainingSteps.flatMap((step) => step.fields)
+    ).map((f) => f.id);
+    const removedIds = flattenFields(parsedSteps[stepIndex].fields)
+      .map((f) => f.id)
+      .filter((id) => !remainingIds.includes(id));
+    const updatedSteps = removeFieldReferences(
+      retargetNavigationRules(remainingSteps, parsedSteps[stepIndex].id),
+      removedIds
+    );
     updateSteps(updatedSteps);
 
     if (currentStepIndex >= updatedSteps.length) {
@@ -966,6 +1084,48 @@ export const FormBuilder: FC = () => {
     console.log(`🗑️ Deleted step: ${stepName}`);
   };
 
+  // Undo / redo
+  const restoreSnapshot = (snapshot: Step[]) => {
+    setSteps(snapshot);
+    setHasUnsavedWork(true);
+    lastEditRef.current = { time: 0 };
+
+    if (currentStepIndex >= snapshot.length) {
+      setCurrentStepIndex(Math.max(0, snapshot.length - 1));
+    }
+    const stepAfter = snapshot[Math.min(currentStepIndex, snapshot.length - 1)];
+    if (
+      selectedFieldId &&
+      !stepAfter?.fields.some((f: FormField) => f.id === selectedFieldId)
+    ) {
+      setSelectedFieldId(null);
+    }
+  };
+
+  const undo = () => {
+    if (history.past.length === 0) return;
+
+    const previous = history.past[history.past.length - 1];
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [parsedSteps, ...history.future],
+    });
+    restoreSnapshot(previous);
+    console.log("↶ Undo");
+  };
+
+  const redo = () => {
+    if (history.future.length === 0) return;
+
+    const [next, ...remaining] = history.future;
+    setHistory({
+      past: [...history.past, parsedSteps],
+      future: remaining,
+    });
+    restoreSnapshot(next);
+    console.log("↷ Redo");
+  };
+
   // Flow management functions
   const createNewFlow = () => {
     if (
@@ -987,9 +1147,17 @@ export const FormBuilder: FC = () => {
     ];
 
     setSteps(newSteps);
+    resetHistory();
+    hostFlowRef.current = {
+      id: Date.now().toString(),
+      created_at: new Date().toISOString(),
+    };
     setCurrentFlowName("New Form Flow");
+    setCurrentFlowDescription("");
     setCurrentStepIndex(0);
-    setPreviewData({});
+    setPreviewAnswers({});
+    setPreviewHistory([]);
+    setPreviewErrorScope(null);
     setSelectedFieldId(null);
     setShowFlowManager(false);
     setIsNewFlow(true);
@@ -999,7 +1167,7 @@ export const FormBuilder: FC = () => {
   };
 
   // Local flow management
-  const saveCurrentFlow = () => {
+  const saveCurrentFlow = async () => {
     if (parsedSteps.length === 0) {
       setSaveStatus("⚠️ Cannot save empty flow");
       setTimeout(() => setSaveStatus(""), 3000);
@@ -1009,49 +1177,93 @@ export const FormBuilder: FC = () => {
     const flowName = prompt("Enter flow name:", currentFlowName)?.trim();
     if (!flowName) return;
 
-    const newFlow: SavedFlow = {
+    let flowToSave: SavedFlow = {
       id: Date.now().toString(),
       name: flowName,
-      description: `Flow with ${parsedSteps.length} pages`,
+      description:
+        currentFlowDescription || `Flow with ${parsedSteps.length} pages`,
       steps: parsedSteps,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
 
-    const flows = [...parsedSavedFlows];
-    const existingIndex = flows.findIndex(
+    if (onSave) {
+      try {
+        await onSave({ ...flowToSave, ...hostFlowRef.current });
+      } catch (error) {
+        console.error("Host failed to save flow:", error);
+        setSaveStatus(`❌ Failed to save "${flowName}"`);
+        setTimeout(() => setSaveStatus(""), 3000);
+        return;
+      }
+
+      setCurrentFlowName(flowName);
+      setIsNewFlow(false);
+      setHasUnsavedWork(false);
+      setSaveStatus(`✅ Saved "${flowName}"`);
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
+
+    const existingFlow = parsedSavedFlows.find(
       (f: SavedFlow) => f.name === flowName
     );
 
-    if (existingIndex >= 0) {
-      if (confirm(`Flow "${flowName}" exists. Overwrite?`)) {
-        flows[existingIndex] = {
-          ...newFlow,
-          created_at: flows[existingIndex].created_at,
-        };
-      } else {
+    if (existingFlow) {
+      if (!confirm(`Flow "${flowName}" exists. Overwrite?`)) {
         return;
       }
-    } else {
-      flows.push(newFlow);
+      flowToSave = {
+        ...flowToSave,
+        id: existingFlow.id,
+        created_at: existingFlow.created_at,
+      };
+    }
+
+    try {
+      await storage.saveFlow(flowToSave);
+      setSavedFlows(await storage.listFlows());
+    } catch (error) {
+      console.error("Failed to save flow:", error);
+      setSaveStatus(`❌ Failed to save "${flowName}"`);
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
     }
 
-    setSavedFlows(flows);
     setCurrentFlowName(flowName);
+    setIsNewFlow(false);
     setHasUnsavedWork(false);
     setSaveStatus(`✅ Saved "${flowName}" locally`);
     setTimeout(() => setSaveStatus(""), 3000);
   };
 
-  const loadFlow = (flow: SavedFlow) => {
+  const loadFlow = async (flowId: string) => {
     if (hasUnsavedWork && !confirm("Discard unsaved changes?")) {
       return;
     }
 
-    setSteps(flow.steps);
+    let flow: SavedFlow | null;
+    try {
+      flow = await storage.getFlow(flowId);
+    } catch (error) {
+      console.error("Failed to load flow:", error);
+      flow = null;
+    }
+
+    if (!flow) {
+      setSaveStatus("❌ Flow could not be loaded");
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
+
+    setSteps(migrateNavigationRules(flow.steps));
+    resetHistory();
     setCurrentFlowName(flow.name);
+    setCurrentFlowDescription(flow.description || "");
     setCurrentStepIndex(0);
-    setPreviewData({});
+    setPreviewAnswers({});
+    setPreviewHistory([]);
+    setPreviewErrorScope(null);
     setSelectedFieldId(null);
     setShowFlowManager(false);
     setIsNewFlow(false);
@@ -1060,93 +1272,104 @@ export const FormBuilder: FC = () => {
     setTimeout(() => setSaveStatus(""), 3000);
   };
 
-  const deleteFlow = (flowId: string) => {
+  const deleteFlow = async (flowId: string) => {
     const flow = parsedSavedFlows.find((f: SavedFlow) => f.id === flowId);
     if (!flow) return;
 
     if (!confirm(`Delete "${flow.name}"?`)) return;
 
-    const flows = parsedSavedFlows.filter((f: SavedFlow) => f.id !== flowId);
-    setSavedFlows(flows);
+    try {
+      await storage.deleteFlow(flowId);
+      setSavedFlows(await storage.listFlows());
+    } catch (error) {
+      console.error("Failed to delete flow:", error);
+      setSaveStatus(`❌ Failed to delete "${flow.name}"`);
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
+
     setSaveStatus(`🗑️ Deleted "${flow.name}"`);
     setTimeout(() => setSaveStatus(""), 3000);
   };
 
-  // Template functions
-  const insertTemplate = (fieldId: string, templateKey: string) => {
-    const field = currentStep?.fields.find((f: FormField) => f.id === fieldId);
-    if (!field) return;
+  // Import a flow bundle or raw saved flow from an exported JSON file
+  const importFlowFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error("Failed to read import file:", error);
+      setSaveStatus(`❌ Could not read "${file.name}"`);
+      setTimeout(() => setSaveStatus(""), 3000);
+      return;
+    }
 
-    updateField(fieldId, { defaultValue: templateKey });
-    setShowTemplateHelper(false);
-    setSaveStatus(`📝 Template inserted: ${templateKey}`);
-    setTimeout(() => setSaveStatus(""), 2000);
-    console.log(`📝 Inserted template ${templateKey} into field ${fieldId}`);
-  };
-
-  // File upload handling
-  const handleFileUpload = (fieldId: string, files: FileList | null) => {
-    if (!files || !currentStep) return;
-
-    const field = currentStep.fields.find((f: FormField) => f.id === fieldId);
-    if (!field) return;
+    const result = parseFlowImport(text, parsedSavedFlows);
+    console.log("📥 Import result:", result);
 
-    const fileArray = Array.from(files);
-
-    const maxSize = (field.maxFileSize || 10) * 1024 * 1024;
-    const oversizedFiles = fileArray.filter((f: File) => f.size > maxSize);
-    if (oversizedFiles.length > 0) {
-      setSaveStatus(
-        `❌ Files too large: ${oversizedFiles.map((f) => f.name).join(", ")}`
-      );
-      setTimeout(() => setSaveStatus(""), 5000);
+    if (!result.flow) {
+      setImportReport({
+        fileName: file.name,
+        imported: false,
+        issues: result.issues,
+      });
+      setSaveStatus(`❌ Import failed: ${file.name}`);
+      setTimeout(() => setSaveStatus(""), 3000);
       return;
     }
 
-    if (field.acceptedFileTypes && field.acceptedFileTypes.length > 0) {
-      const invalidFiles = fileArray.filter((f: File) => {
-        return !field.acceptedFileTypes!.some((acceptedType) => {
-          if (acceptedType.includes("*")) {
-            const baseType = acceptedType.split("/")[0];
-            return f.type.startsWith(baseType);
-          }
-          return f.type === acceptedType;
-        });
-      });
-
-      if (invalidFiles.length > 0) {
-        setSaveStatus(
-          `❌ Invalid file types: ${invalidFiles.map((f) => f.name).join(", ")}`
-        );
-        setTimeout(() => setSaveStatus(""), 5000);
-        return;
-      }
+    if (
+      hasUnsavedWork &&
+      !confirm("Discard unsaved changes and import this flow?")
+    ) {
+      return;
     }
 
-    const fileData = field.multiple
-      ? fileArray.map((f: File) => ({
-          name: f.name,
-          size: f.size,
-          type: f.type,
-          url: URL.createObjectURL(f),
-        }))
-      : {
-          name: files[0].name,
-          size: files[0].size,
-          type: files[0].type,
-          url: URL.createObjectURL(files[0]),
-        };
+    setSteps(result.flow.steps);
+    resetHistory();
+    setCurrentFlowName(result.flow.name);
+    setCurrentFlowDescription(result.flow.description);
+    setCurrentStepIndex(0);
+    setPreviewAnswers({});
+    setPreviewHistory([]);
+    setPreviewErrorScope(null);
+    setSelectedFieldId(null);
+    setShowFlowManager(false);
+    setIsNewFlow(false);
+    setHasUnsavedWork(true);
+    setImportReport(
+      result.issues.length > 0
+        ? { fileName: file.name, imported: true, issues: result.issues }
+        : null
+    );
+    setSaveStatus(`✅ Imported "${result.flow.name}"`);
+    setTimeout(() => setSaveStatus(""), 3000);
+  };
+
+  // Template functions
+  const insertTemplate = (fieldId: string, templateKey: string) => {
+    const field = currentStep?.fields.find((f: FormField) => f.id === fieldId);
+    if (!field) return;
 
-    updatePreviewData(fieldId, fileData);
-    console.log(`📁 Files uploaded for ${fieldId}:`, fileData);
+    updateField(fieldId, { defaultValue: templateKey });
+    setShowTemplateHelper(false);
+    setSaveStatus(`📝 Template inserted: ${templateKey}`);
+    setTimeout(() => setSaveStatus(""), 2000);
+    console.log(`📝 Inserted template ${templateKey} into field ${fieldId}`);
   };
 
   // Enhanced preview data updates
   const updatePreviewData = (fieldId: string, value: any) => {
+    if (!currentStep) return;
+
     console.log(`🔄 Preview data update: ${fieldId} =`, value);
-    setPreviewData((prev) => ({
+    const stepId = currentStep.id;
+    setPreviewAnswers((prev) => ({
       ...prev,
-      [fieldId]: value,
+      [stepId]: {
+        ...(prev[stepId] ?? previewData),
+        [fieldId]: value,
+      },
     }));
   };
 
@@ -1164,117 +1387,102 @@ export const FormBuilder: FC = () => {
       );
       return previewValue !== undefined ? previewValue : processedDefault;
     }
+    // Date inputs cannot show "today", so relative dates resolve in edit mode too
+    if (previewValue === undefined && DATE_FIELD_TYPES.includes(field.type)) {
+      return resolveDefaultValue(field, {});
+    }
     return previewValue !== undefined ? previewValue : field.defaultValue;
   };
 
   // Field visibility logic
-  const isFieldVisible = (field: FormField): boolean => {
-    if (!field.dependsOn || !field.showWhen) return true;
-
-    const dependentValue = previewData[field.dependsOn];
-    const parentField = currentStep?.fields.find(
-      (f: FormField) => f.id === field.dependsOn
+  const isFieldVisible = (field: FormField): boolean =>
+    isFieldVisibleIn(
+      field,
+      currentStep?.fields || [],
+      previewScope,
+      flowFields
     );
 
-    if (!parentField) return false;
-
-    if (
-      dependentValue === undefined ||
-      dependentValue === null ||
-      dependentValue === ""
-    ) {
-      return false;
-    }
-
-    if (parentField.type === "radio" || parentField.type === "select") {
-      return dependentValue === field.showWhen;
-    }
-
-    if (parentField.type === "checkbox") {
-      const selectedValues = Array.isArray(dependentValue)
-        ? dependentValue
-        : [];
-      return selectedValues.includes(field.showWhen);
-    }
-
-    return dependentValue === field.showWhen;
-  };
-
   // Enhanced form validation
   const validateCurrentStep = (): { valid: boolean; errors: string[] } => {
     if (!currentStep) return { valid: true, errors: [] };
 
-    const errors: string[] = [];
+    return previewMode
+      ? validateStepAnswers(
+          currentStep,
+          previewData,
+          previewRouteAnswers,
+          flowFields
+        )
+      : validateStepDefinition(currentStep, flowFields);
+  };
 
-    if (previewMode) {
-      currentStep.fields.forEach((field) => {
-        if (field.required && field.type !== "title" && isFieldVisible(field)) {
-          const value = previewData[field.id];
-          if (
-            value === undefined ||
-            value === null ||
-            value === "" ||
-            (Array.isArray(value) && value.length === 0)
-          ) {
-            errors.push(`"${field.title}" is required`);
-          }
-        }
-      });
-    } else {
-      currentStep.fields.forEach((field) => {
-        if (!field.title?.trim()) {
-          errors.push(`Field "${field.id}" needs a title`);
-        }
+  // Preview errors per field, re-checked on every change but only shown for
+  // fields in the current error scope
+  const previewValidation =
+    previewMode && currentStep
+      ? validateStepAnswers(
+          currentStep,
+          previewData,
+          previewRouteAnswers,
+          flowFields
+        )
+      : null;
+  const shownFieldErrors: FieldErrors =
+    previewValidation &&
+    currentStep &&
+    previewErrorScope?.stepId === currentStep.id
+      ? Object.fromEntries(
+          Object.entries(previewValidation.fieldErrors).filter(
+            ([fieldId]) =>
+              previewErrorScope.fieldIds === "all" ||
+              previewErrorScope.fieldIds.includes(fieldId)
+          )
+        )
+      : {};
+
+  // Start showing a field's errors once focus leaves it
+  const markFieldTouched = (fieldId: string) => {
+    if (!previewMode || !currentStep) return;
+
+    setPreviewErrorScope((prev) =>
+      prev?.stepId !== currentStep.id
+        ? { stepId: currentStep.id, fieldIds: [fieldId] }
+        : prev.fieldIds === "all" || prev.fieldIds.includes(fieldId)
+        ? prev
+        : { ...prev, fieldIds: [...prev.fieldIds, fieldId] }
+    );
+  };
 
-        if (
-          ["select", "radio", "checkbox"].includes(field.type) &&
-          (!field.options || field.options.length === 0)
-        ) {
-          errors.push(`"${field.title}" needs options`);
-        }
+  // Scroll a field into view and focus its first input
+  const jumpToField = (fieldId: string) => {
+    const element = document.getElementById(`field-${fieldId}`);
+    if (!element) return;
 
-        if (
-          field.type === "file" &&
-          field.maxFileSize &&
-          field.maxFileSize > 100
-        ) {
-          errors.push(`"${field.title}" file size limit too high`);
-        }
-      });
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    element
+      .querySelector<HTMLElement>("input, textarea, select, button")
+      ?.focus({ preventScroll: true });
+  };
+
+  // Open the page (and field) a Flow Check issue points at
+  const goToLintIssue = (issue: FlowLintIssue) => {
+    const stepIndex = parsedSteps.findIndex((s) => s.id === issue.stepId);
+    if (stepIndex === -1) return;
+
+    setCurrentStepIndex(stepIndex);
+    if (!issue.fieldId || !canEdit) {
+      setSelectedFieldId(null);
+      return;
     }
 
-    return { valid: errors.length === 0, errors };
+    // Group children are edited through their group's card
+    const fields = parsedSteps[stepIndex].fields;
+    const cardId = findParentGroup(issue.fieldId, fields)?.id ?? issue.fieldId;
+    setSelectedFieldId(cardId);
+    setTimeout(() => jumpToField(cardId), 0);
   };
 
-  // const validateAllSteps = (): { valid: boolean; errors: string[] } => {
-  //   const allErrors: string[] = [];
-
-  //   if (parsedSteps.length === 0) {
-  //     allErrors.push("Flow must have at least one page");
-  //     return { valid: false, errors: allErrors };
-  //   }
-
-  //   parsedSteps.forEach((step, index) => {
-  //     if (!step.name?.trim()) {
-  //       allErrors.push(`Page ${index + 1} needs a name`);
-  //     }
-
-  //     if (step.fields.length === 0) {
-  //       allErrors.push(`"${step.name}" has no fields`);
-  //     }
-
-  //     const fieldIds = step.fields.map((f) => f.id);
-  //     const duplicateIds = fieldIds.filter(
-  //       (id, idx) => fieldIds.indexOf(id) !== idx
-  //     );
-  //     if (duplicateIds.length > 0) {
-  //       allErrors.push(`"${step.name}" has duplicate field IDs`);
-  //     }
-  //   });
-
-  //   return { valid: allErrors.length === 0, errors: allErrors };
-  // };
-
   // // Navigation logic for preview mode
   // const getNavigationFields = () => {
   //   if (!currentStep) return [];
@@ -1289,123 +1497,94 @@ export const FormBuilder: FC = () => {
     const rule = currentStep.navigationRule;
     if (!rule) return "Continue to next page";
 
-    const fieldValue = previewData[rule.fieldId];
+    const fieldValue = previewScope[rule.fieldId];
     if (fieldValue === undefined || fieldValue === null || fieldValue === "") {
       return "No value selected";
     }
 
-    const field = currentStep.fields.find(
+    const field = flattenFields(flowFields).find(
       (f: FormField) => f.id === rule.fieldId
     );
     if (!field) return "Navigation field not found";
 
-    let matchedCondition = null;
-    if (field.type === "checkbox") {
-      const selectedValues = Array.isArray(fieldValue) ? fieldValue : [];
-      matchedCondition = rule.conditions.find((cond: any) =>
-        selectedValues.includes(cond.value)
-      );
-    } else {
-      matchedCondition = rule.conditions.find(
-        (cond: any) => cond.value === fieldValue
-      );
-    }
+    const matchedCondition = findMatchingCondition(rule, field, fieldValue);
 
     if (matchedCondition) {
-      return `"${fieldValue}" → "${matchedCondition.nextStepName}"`;
+      return `"${fieldValue}" → "${describeNavigationTarget(
+        parsedSteps,
+        matchedCondition.nextStepId
+      )}"`;
     } else {
-      return `"${fieldValue}" → "${rule.defaultStepName || "continue"}"`;
+      return `"${fieldValue}" → "${describeNavigationTarget(
+        parsedSteps,
+        rule.defaultStepId || "continue"
+      )}"`;
     }
   };
 
   const executeNavigation = () => {
     if (!currentStep) return;
 
-    const rule = currentStep.navigationRule;
     console.log("🚀 Navigation:", {
-      hasRule: !!rule,
+      hasRule: !!currentStep.navigationRule,
       currentStep: currentStepIndex,
       totalSteps: parsedSteps.length,
       formData: previewData,
     });
 
-    const validation = validateCurrentStep();
+    const validation = validateStepAnswers(
+      currentStep,
+      previewData,
+      previewRouteAnswers,
+      flowFields
+    );
     if (!validation.valid) {
+      setPreviewErrorScope({ stepId: currentStep.id, fieldIds: "all" });
+      const [firstFieldId] = Object.keys(validation.fieldErrors);
+      if (firstFieldId) jumpToField(firstFieldId);
       setSaveStatus(`⚠️ ${validation.errors.length} validation error(s)`);
       setTimeout(() => setSaveStatus(""), 3000);
       return;
     }
 
-    if (!rule) {
-      if (currentStepIndex < parsedSteps.length - 1) {
-        setCurrentStepIndex(currentStepIndex + 1);
-        setPreviewData({});
-      } else {
-        setSaveStatus("🎉 Form Complete!");
-        setTimeout(() => setSaveStatus(""), 3000);
-      }
-      return;
-    }
-
-    const fieldValue = previewData[rule.fieldId];
-    const field = currentStep.fields.find(
-      (f: FormField) => f.id === rule.fieldId
+    const outcome = resolveNextStep(
+      parsedSteps,
+      currentStepIndex,
+      previewScope
     );
 
-    if (
-      !field ||
-      fieldValue === undefined ||
-      fieldValue === "" ||
-      (Array.isArray(fieldValue) && fieldValue.length === 0)
-    ) {
-      setSaveStatus("⚠️ Please complete required fields");
-      setTimeout(() => setSaveStatus(""), 3000);
-      return;
-    }
-
-    let targetStep = rule.defaultStepName || "continue";
-    if (field.type === "checkbox") {
-      const selectedValues = Array.isArray(fieldValue) ? fieldValue : [];
-      const matchedCondition = rule.conditions.find((cond: any) =>
-        selectedValues.includes(cond.value)
-      );
-      if (matchedCondition) targetStep = matchedCondition.nextStepName;
-    } else {
-      const matchedCondition = rule.conditions.find(
-        (cond: any) => cond.value === fieldValue
-      );
-      if (matchedCondition) targetStep = matchedCondition.nextStepName;
-    }
-
-    if (targetStep === "continue") {
-      if (currentStepIndex < parsedSteps.length - 1) {
-        setCurrentStepIndex(currentStepIndex + 1);
-        setPreviewData({});
-      } else {
+    switch (outcome.type) {
+      case "goto":
+        setPreviewHistory([...previewHistory, currentStepIndex]);
+        setCurrentStepIndex(outcome.stepIndex);
+        break;
+      case "complete":
         setSaveStatus("🎉 Form Complete!");
         setTimeout(() => setSaveStatus(""), 3000);
-      }
-    } else if (targetStep === "end") {
-      setSaveStatus("🛑 Form ended based on selection");
-      setTimeout(() => setSaveStatus(""), 3000);
-    } else if (targetStep === "skip") {
-      setCurrentStepIndex(parsedSteps.length - 1);
-      setPreviewData({});
-    } else {
-      const targetStepIndex = parsedSteps.findIndex(
-        (s: Step) => s.name === targetStep
-      );
-
-      if (targetStepIndex !== -1) {
-        setCurrentStepIndex(targetStepIndex);
-        setPreviewData({});
-      } else {
-        setSaveStatus(`❓ Target "${targetStep}" not found`);
+        break;
+      case "end":
+        setSaveStatus("🛑 Form ended based on selection");
         setTimeout(() => setSaveStatus(""), 3000);
-      }
+        break;
+      case "missingAnswer":
+        setSaveStatus("⚠️ Please complete required fields");
+        setTimeout(() => setSaveStatus(""), 3000);
+        break;
+      case "missingTarget":
+        setSaveStatus(`❓ Target "${outcome.target}" not found`);
+        setTimeout(() => setSaveStatus(""), 3000);
+        break;
     }
   };
 
+  // Return to the page visited before the current one
+  const goToPreviousStep = () => {
+    if (previewHistory.length === 0) return;
+
+    setCurrentStepIndex(previewHistory[previewHistory.length - 1]);
+    setPreviewHistory(previewHistory.slice(0, -1));
+  };
+
   // Clipboard operations
   const copyFieldToClipboard = (field: FormField) => {
     const fieldData = {
@@ -1431,11 +1610,33 @@ export const FormBuilder: FC = () => {
       const fieldData = JSON.parse(clipboardText) as FormField;
 
       if (fieldData && fieldData.type && fieldData.title && fieldData.id) {
+        // Pasting the same field twice must not reuse its ID, nor the IDs of
+        // a group's children
+        const takenIds = flattenFields(flowFields).map((f) => f.id);
+        const uniqueId = (id: string) => {
+          const unique = getUniqueFieldId(id, takenIds);
+          takenIds.push(unique);
+          return unique;
+        };
+        const pastedField: FormField = {
+          ...fieldData,
+          id: uniqueId(fieldData.id),
+          ...(fieldData.type === "group" && {
+            fields: (fieldData.fields || []).map((child) => ({
+              ...child,
+              id: uniqueId(child.id),
+            })),
+          }),
+        };
+
         const updatedSteps = [...parsedSteps];
         if (updatedSteps[currentStepIndex]) {
-          updatedSteps[currentStepIndex].fields.push(fieldData);
+          updatedSteps[currentStepIndex] = {
+            ...updatedSteps[currentStepIndex],
+            fields: [...updatedSteps[currentStepIndex].fields, pastedField],
+          };
           updateSteps(updatedSteps);
-          setSelectedFieldId(fieldData.id);
+          setSelectedFieldId(pastedField.id);
           setSaveStatus("📋 Field pasted");
           setTimeout(() => setSaveStatus(""), 2000);
         }
@@ -1453,35 +1654,184 @@ export const FormBuilder: FC = () => {
       ? currentStep.fields.find((f: FormField) => f.id === selectedFieldId)
       : null;
 
-  const dependencySourceFields = currentStep
-    ? currentStep.fields.filter(
-        (f: FormField) =>
-          ["radio", "select", "checkbox"].includes(f.type) &&
-          f.id !== selectedFieldId
-      )
-    : [];
+  // Fields on this page and the pages before it, grouped by page, for the
+  // pickers that may read earlier answers (group children included)
+  const getPageFieldGroups = (include: (field: FormField) => boolean) =>
+    parsedSteps
+      .slice(0, currentStepIndex + 1)
+      .map((step) => ({
+        label:
+          step.id === currentStep?.id ? `${step.name} (this page)` : step.name,
+        fields: flattenFields(step.fields).filter(include),
+      }))
+      .filter((group) => group.fields.length > 0);
+
+  const dependencySourceGroups = getPageFieldGroups(
+    (f: FormField) =>
+      getConditionOperators(f).length > 0 &&
+      f.id !== selectedFieldId &&
+      !selectedField?.fields?.some((child) => child.id === f.id)
+  );
+
+  const navigationSourceGroups = getPageFieldGroups((f: FormField) =>
+    CHOICE_FIELD_TYPES.includes(f.type)
+  );
+  const navigationSourceFields = navigationSourceGroups.flatMap(
+    (group) => group.fields
+  );
 
   // Navigation rule management
-  // const updateNavigationRule = (rule: Partial<NavigationRule>) => {
-  //   if (!currentStep) return;
-
-  //   console.log(`🔀 Updating navigation rule:`, rule);
-  //   const updatedSteps = [...parsedSteps];
-  //   updatedSteps[currentStepIndex].navigationRule = {
-  //     ...updatedSteps[currentStepIndex].navigationRule,
-  //     ...rule,
-  //   } as NavigationRule;
-  //   updateSteps(updatedSteps);
-  // };
+  const updateNavigationRule = (rule: Partial<NavigationRule>) => {
+    if (!currentStep) return;
+
+    console.log(`🔀 Updating navigation rule:`, rule);
+    const updatedSteps = [...parsedSteps];
+    updatedSteps[currentStepIndex] = {
+      ...currentStep,
+      navigationRule: {
+        fieldId: "",
+        conditions: [],
+        ...currentStep.navigationRule,
+        ...rule,
+      },
+    };
+    updateSteps(updatedSteps);
+  };
 
-  // const removeNavigationRule = () => {
-  //   if (!currentStep) return;
+  const removeNavigationRule = () => {
+    if (!currentStep) return;
 
-  //   console.log(`❌ Removing navigation rule`);
-  //   const updatedSteps = [...parsedSteps];
-  //   delete updatedSteps[currentStepIndex].navigationRule;
-  //   updateSteps(updatedSteps);
-  // };
+    console.log(`❌ Removing navigation rule`);
+    const updatedSteps = [...parsedSteps];
+    const updatedStep = { ...currentStep };
+    delete updatedStep.navigationRule;
+    updatedSteps[currentStepIndex] = updatedStep;
+    updateSteps(updatedSteps);
+  };
+
+  // Point one route of any page's rule elsewhere (dragged in the flow graph);
+  // `conditionValue` is undefined for the default route
+  const retargetRoute = (
+    stepId: string,
+    conditionValue: string | undefined,
+    target: string
+  ) => {
+    const updatedSteps = parsedSteps.map((step) => {
+      const rule = step.navigationRule;
+      if (step.id !== stepId || !rule) return step;
+      return {
+        ...step,
+        navigationRule:
+          conditionValue === undefined
+            ? { ...rule, defaultStepId: target }
+            : {
+                ...rule,
+                conditions: rule.conditions.map((cond) =>
+                  cond.value === conditionValue
+                    ? { ...cond, nextStepId: target }
+                    : cond
+                ),
+              },
+      };
+    });
+    updateSteps(updatedSteps);
+    console.log("🔀 Rerouted:", { stepId, conditionValue, target });
+  };
+
+  // Map one option of the driving field to a target ("" falls back to default)
+  const setNavigationTarget = (value: string, nextStepId: string) => {
+    const rule = currentStep?.navigationRule;
+    if (!rule) return;
+
+    const field = flattenFields(flowFields).find((f) => f.id === rule.fieldId);
+    const options = field?.options || [];
+    const targets = new Map(
+      rule.conditions.map((cond) => [cond.value, cond.nextStepId])
+    );
+
+    if (nextStepId) {
+      targets.set(value, nextStepId);
+    } else {
+      targets.delete(value);
+    }
+
+    // Keep conditions in option order so checkbox matching stays predictable;
+    // stale values are kept at the end so they can be reviewed and removed
+    const ordered = [
+      ...options.filter((opt) => targets.has(opt)),
+      ...Array.from(targets.keys()).filter((v) => !options.includes(v)),
+    ];
+
+    updateNavigationRule({
+      conditions: ordered.map((v) => ({
+        value: v,
+        nextStepId: targets.get(v)!,
+      })),
+    });
+  };
+
+  const getNavigationRuleIssues = (
+    rule: NavigationRule
+  ): { level: "error" | "warning"; message: string }[] => {
+    if (!currentStep) return [];
+
+    const issues: { level: "error" | "warning"; message: string }[] = [];
+    const field = flattenFields(flowFields).find((f) => f.id === rule.fieldId);
+
+    if (!field) {
+      issues.push({
+        level: "error",
+        message: `Driving field "${rule.fieldId}" no longer exists`,
+      });
+    }
+
+    const checkTarget = (target: string, source: string) => {
+      if (isNavigationKeyword(target)) return;
+
+      if (!parsedSteps.some((s) => s.id === target)) {
+        issues.push({
+          level: "error",
+          message: `${source} targets missing page "${target}"`,
+        });
+      } else if (target === currentStep.id) {
+        issues.push({
+          level: "warning",
+          message: `${source} loops back to this page`,
+        });
+      }
+    };
+
+    rule.conditions.forEach((cond) => {
+      if (field && !field.options?.includes(cond.value)) {
+        issues.push({
+          level: "error",
+          message: `Option "${cond.value}" is no longer offered by "${field.title}"`,
+        });
+      }
+      checkTarget(cond.nextStepId, `"${cond.value}"`);
+    });
+
+    checkTarget(rule.defaultStepId || "continue", "Default route");
+
+    if (rule.conditions.length === 0) {
+      issues.push({
+        level: "warning",
+        message: "No options are mapped; every answer uses the default route",
+      });
+    }
+
+    checkExpression(
+      convertToExpression(rule, currentStep, flowFields),
+      flowFields
+    ).errors.forEach((message) =>
+      issues.push({
+        level: "error",
+        message: `Generated expression is invalid: ${message}`,
+      })
+    );
+
+    return issues;
+  };
 
   // Drag and drop handlers
   const handleDragStart = (
@@ -1505,6 +1855,7 @@ export const FormBuilder: FC = () => {
 
   const handleDrop = (e: React.DragEvent, dropIndex?: number) => {
     e.preventDefault();
+    if (!canEdit) return;
 
     try {
       const draggedItem = JSON.parse(
@@ -1528,14 +1879,14 @@ export const FormBuilder: FC = () => {
 
   // Step name update handler
   const updateStepProperty = (
-    property: "name" | "description",
+    property: "name" | "description" | "summaryCheckExpression",
     value: string
   ) => {
     if (!currentStep) return;
 
     const updatedSteps = [...parsedSteps];
-    updatedSteps[currentStepIndex][property] = value;
-    updateSteps(updatedSteps);
+    updatedSteps[currentStepIndex] = { ...currentStep, [property]: value };
+    updateSteps(updatedSteps, `step-${property}:${currentStep.id}`);
   };
 
   // ✅ MAIN RENDER
@@ -1649,24 +2000,26 @@ export const FormBuilder: FC = () => {
             }}
           >
             {/* Save Locally */}
-            <button
-              onClick={saveCurrentFlow}
-              disabled={parsedSteps.length === 0}
-              style={{
-                padding: "8px 12px",
-                border: "none",
-                borderRadius: "6px",
-                backgroundColor:
-                  parsedSteps.length === 0 ? "#9ca3af" : "#10b981",
-                // color: "white",
-                cursor: parsedSteps.length === 0 ? "not-allowed" : "pointer",
-                fontWeight: "500",
-                fontSize: "13px",
-                opacity: parsedSteps.length === 0 ? 0.7 : 1,
-              }}
-            >
-              💾 Save Locally
-            </button>
+            {!readOnly && (
+              <button
+                onClick={saveCurrentFlow}
+                disabled={parsedSteps.length === 0}
+                style={{
+                  padding: "8px 12px",
+                  border: "none",
+                  borderRadius: "6px",
+                  backgroundColor:
+                    parsedSteps.length === 0 ? "#9ca3af" : "#10b981",
+                  // color: "white",
+                  cursor: parsedSteps.length === 0 ? "not-allowed" : "pointer",
+                  fontWeight: "500",
+                  fontSize: "13px",
+                  opacity: parsedSteps.length === 0 ? 0.7 : 1,
+                }}
+              >
+                💾 Save Locally
+              </button>
+            )}
 
             {/* Export JSON */}
             <button
@@ -1688,46 +2041,119 @@ export const FormBuilder: FC = () => {
               📦 Export JSON
             </button>
 
-            {/* New Flow */}
-            <button
-              onClick={createNewFlow}
-              style={{
-                padding: "8px 12px",
-                border: "1px solid #6b7280",
-                borderRadius: "6px",
-                // backgroundColor: "white",
-                color: "#374151",
-                cursor: "pointer",
-                fontWeight: "500",
-                fontSize: "13px",
-              }}
-            >
-              New Flow
-            </button>
-
-            {/* Local Flow Manager */}
-            <button
-              onClick={() => setShowFlowManager(!showFlowManager)}
-              style={{
-                padding: "8px 12px",
-                border: "1px solid #8b5cf6",
-                borderRadius: "6px",
-                // backgroundColor: showFlowManager ? "#8b5cf6" : "white",
-                // color: showFlowManager ? "white" : "#8b5cf6",
-                cursor: "pointer",
-                fontWeight: "500",
-                fontSize: "13px",
-              }}
-            >
-              Local Flows ({parsedSavedFlows.length})
-            </button>
+            {!readOnly && (
+              <>
+                {/* Import JSON */}
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #8b5cf6",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    fontWeight: "500",
+                    fontSize: "13px",
+                  }}
+                >
+                  📥 Import JSON
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) importFlowFile(file);
+                  }}
+                  style={{ display: "none" }}
+                />
 
-            {/* Preview Toggle */}
-            <label
-              style={{
-                display: "flex",
-                alignItems: "center",
-                gap: "8px",
+                {/* New Flow */}
+                <button
+                  onClick={createNewFlow}
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #6b7280",
+                    borderRadius: "6px",
+                    // backgroundColor: "white",
+                    color: "#374151",
+                    cursor: "pointer",
+                    fontWeight: "500",
+                    fontSize: "13px",
+                  }}
+                >
+                  New Flow
+                </button>
+
+                {/* Undo / Redo */}
+                <button
+                  onClick={undo}
+                  disabled={history.past.length === 0 || previewMode}
+                  title="Undo (Ctrl+Z)"
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "6px",
+                    color: "#374151",
+                    cursor:
+                      history.past.length === 0 || previewMode
+                        ? "not-allowed"
+                        : "pointer",
+                    fontWeight: "500",
+                    fontSize: "13px",
+                    opacity: history.past.length === 0 || previewMode ? 0.5 : 1,
+                  }}
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={history.future.length === 0 || previewMode}
+                  title="Redo (Ctrl+Shift+Z)"
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "6px",
+                    color: "#374151",
+                    cursor:
+                      history.future.length === 0 || previewMode
+                        ? "not-allowed"
+                        : "pointer",
+                    fontWeight: "500",
+                    fontSize: "13px",
+                    opacity:
+                      history.future.length === 0 || previewMode ? 0.5 : 1,
+                  }}
+                >
+                  ↷ Redo
+                </button>
+
+                {/* Local Flow Manager */}
+                <button
+                  onClick={() => setShowFlowManager(!showFlowManager)}
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #8b5cf6",
+                    borderRadius: "6px",
+                    // backgroundColor: showFlowManager ? "#8b5cf6" : "white",
+                    // color: showFlowManager ? "white" : "#8b5cf6",
+                    cursor: "pointer",
+                    fontWeight: "500",
+                    fontSize: "13px",
+                  }}
+                >
+                  Local Flows ({parsedSavedFlows.length})
+                </button>
+              </>
+            )}
+
+            {/* Preview Toggle */}
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
                 padding: "8px 12px",
                 border: "1px solid #10b981",
                 borderRadius: "6px",
@@ -1777,28 +2203,88 @@ export const FormBuilder: FC = () => {
               Generate Schema
             </button>
 
-            {/* Validation Status */}
+            {/* Flow Check Status */}
             {!previewMode &&
               (() => {
-                const validation = validateCurrentStep();
-                return validation.errors.length > 0 ? (
-                  <div
+                const errorCount = flowIssues.filter(
+                  (issue) => issue.level === "error"
+                ).length;
+                const warningCount = flowIssues.length - errorCount;
+                return (
+                  <button
+                    onClick={() => setShowLintPanel(!showLintPanel)}
                     style={{
                       padding: "6px 12px",
-                      // backgroundColor: "#fef2f2",
-                      border: "1px solid #ef4444",
+                      border: `1px solid ${
+                        errorCount > 0
+                          ? "#ef4444"
+                          : warningCount > 0
+                          ? "#eab308"
+                          : "#10b981"
+                      }`,
                       borderRadius: "6px",
                       fontSize: "12px",
-                      color: "#dc2626",
-                      maxWidth: "200px",
+                      color:
+                        errorCount > 0
+                          ? "#dc2626"
+                          : warningCount > 0
+                          ? "#a16207"
+                          : "#059669",
+                      cursor: "pointer",
                     }}
-                    title={validation.errors.join("\n")}
+                    title="Check the whole flow"
                   >
-                    ⚠️ {validation.errors.length} issue
-                    {validation.errors.length > 1 ? "s" : ""}
-                  </div>
-                ) : null;
+                    {flowIssues.length === 0
+                      ? "✓ Flow OK"
+                      : [
+                          errorCount > 0 &&
+                            `❌ ${errorCount} error${
+                              errorCount > 1 ? "s" : ""
+                            }`,
+                          warningCount > 0 &&
+                            `⚠️ ${warningCount} warning${
+                              warningCount > 1 ? "s" : ""
+                            }`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                  </button>
+                );
               })()}
+
+            {!previewMode && (
+              <button
+                onClick={() => setShowFlowGraph(!showFlowGraph)}
+                style={{
+                  padding: "6px 12px",
+                  border: `1px solid ${showFlowGraph ? "#8b5cf6" : "#d1d5db"}`,
+                  borderRadius: "6px",
+                  fontSize: "12px",
+                  color: showFlowGraph ? "#7c3aed" : "#374151",
+                  cursor: "pointer",
+                }}
+                title="Show how the pages route"
+              >
+                🔀 Flow Graph
+              </button>
+            )}
+
+            {!previewMode && (
+              <button
+                onClick={() => setShowSimulator(!showSimulator)}
+                style={{
+                  padding: "6px 12px",
+                  border: `1px solid ${showSimulator ? "#8b5cf6" : "#d1d5db"}`,
+                  borderRadius: "6px",
+                  fontSize: "12px",
+                  color: showSimulator ? "#7c3aed" : "#374151",
+                  cursor: "pointer",
+                }}
+                title="Try every branch of the flow"
+              >
+                🧪 Simulate
+              </button>
+            )}
           </div>
 
           {/* PAGE TABS */}
@@ -1822,8 +2308,11 @@ export const FormBuilder: FC = () => {
               >
                 <button
                   onClick={() => {
+                    // Jumping pages in preview keeps answers and can be undone with Previous
+                    if (previewMode && index !== currentStepIndex) {
+                      setPreviewHistory([...previewHistory, currentStepIndex]);
+                    }
                     setCurrentStepIndex(index);
-                    if (previewMode) setPreviewData({});
                     setSelectedFieldId(null);
                   }}
                   style={{
@@ -1854,7 +2343,7 @@ export const FormBuilder: FC = () => {
                     </span>
                   )}
                 </button>
-                {parsedSteps.length > 1 && (
+                {parsedSteps.length > 1 && !readOnly && (
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -1884,20 +2373,22 @@ export const FormBuilder: FC = () => {
                 )}
               </div>
             ))}
-            <button
-              onClick={addStep}
-              style={{
-                padding: "6px 12px",
-                border: "1px dashed #d1d5db",
-                borderRadius: "6px",
-                // backgroundColor: "white",
-                color: "#6b7280",
-                cursor: "pointer",
-                fontSize: "13px",
-              }}
-            >
-              + Add Page
-            </button>
+            {!readOnly && (
+              <button
+                onClick={addStep}
+                style={{
+                  padding: "6px 12px",
+                  border: "1px dashed #d1d5db",
+                  borderRadius: "6px",
+                  // backgroundColor: "white",
+                  color: "#6b7280",
+                  cursor: "pointer",
+                  fontSize: "13px",
+                }}
+              >
+                + Add Page
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -2030,7 +2521,7 @@ export const FormBuilder: FC = () => {
                   </div>
                   <div style={{ display: "flex", gap: "8px" }}>
                     <button
-                      onClick={() => loadFlow(flow)}
+                      onClick={() => loadFlow(flow.id)}
                       style={{
                         padding: "6px 12px",
                         backgroundColor: "#0ea5e9",
@@ -2065,13 +2556,14 @@ export const FormBuilder: FC = () => {
         </div>
       )}
 
-      {/* TEMPLATE HELPER PANEL */}
-      {showTemplateHelper && !previewMode && selectedField && (
+      {/* IMPORT REPORT PANEL */}
+      {importReport && (
         <div
           style={{
             padding: "16px 24px",
-            // backgroundColor: "#fefce8",
-            borderBottom: "1px solid #eab308",
+            borderBottom: `1px solid ${
+              importReport.imported ? "#eab308" : "#ef4444"
+            }`,
           }}
         >
           <div
@@ -2087,15 +2579,16 @@ export const FormBuilder: FC = () => {
                 margin: 0,
                 fontSize: "14px",
                 fontWeight: "600",
-                color: "#a16207",
+                color: importReport.imported ? "#a16207" : "#dc2626",
               }}
             >
-              Available Templates for "{selectedField.title}"
+              {importReport.imported
+                ? `Imported "${importReport.fileName}" with changes`
+                : `Could not import "${importReport.fileName}"`}
             </h3>
             <button
-              onClick={() => setShowTemplateHelper(false)}
+              onClick={() => setImportReport(null)}
               style={{
-                // backgroundColor: "transparent",
                 color: "#6b7280",
                 border: "none",
                 padding: "4px",
@@ -2109,153 +2602,420 @@ export const FormBuilder: FC = () => {
 
           <div
             style={{
-              padding: "12px",
-              border: "1px solid #e5e7eb",
-              borderRadius: "6px",
-              fontSize: "12px",
-              color: "#6b7280",
-              marginBottom: "12px",
+              display: "flex",
+              flexDirection: "column",
+              gap: "4px",
+              maxHeight: "160px",
+              overflow: "auto",
             }}
           >
-            Click a template to insert it as the field's default value.
-            Templates are replaced with actual data at runtime.
-          </div>
-
-          <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
-            {TEMPLATE_SUGGESTIONS.map((template) => (
-              <button
-                key={template}
-                onClick={() => insertTemplate(selectedField.id, template)}
+            {importReport.issues.map((issue, index) => (
+              <div
+                key={index}
                 style={{
-                  padding: "6px 12px",
-                  // backgroundColor: "white",
-                  border: "1px solid #d1d5db",
-                  borderRadius: "6px",
-                  cursor: "pointer",
                   fontSize: "12px",
-                  fontFamily: "monospace",
-                  color: "#374151",
+                  color: issue.level === "error" ? "#dc2626" : "#a16207",
                 }}
               >
-                {template}
-              </button>
+                {issue.level === "error" ? "❌" : "⚠️"}{" "}
+                <code style={{ color: "#374151" }}>{issue.path}</code>:{" "}
+                {issue.message}
+              </div>
             ))}
           </div>
-
-          {selectedField &&
-            // selectedField.defaultValue &&
-            typeof selectedField.defaultValue === "string" &&
-            selectedField.defaultValue.startsWith("#") && (
-              <div
-                style={{
-                  marginTop: "12px",
-                  padding: "12px",
-                  // backgroundColor: "#f0f9ff",
-                  border: "1px solid #0ea5e9",
-                  borderRadius: "6px",
-                }}
-              >
-                <div
-                  style={{
-                    fontSize: "12px",
-                    fontWeight: "600",
-                    color: "#0369a1",
-                    marginBottom: "4px",
-                  }}
-                >
-                  Current Template:
-                </div>
-                <div
-                  style={{
-                    fontFamily: "monospace",
-                    fontSize: "12px",
-                    color: "#0369a1",
-                  }}
-                >
-                  {selectedField.defaultValue}
-                </div>
-                <div
-                  style={{
-                    fontSize: "11px",
-                    color: "#6b7280",
-                    marginTop: "4px",
-                  }}
-                >
-                  Preview:{" "}
-                  {processTemplateValue(
-                    selectedField.defaultValue,
-                    buildTemplateContext()
-                  )}
-                </div>
-              </div>
-            )}
         </div>
       )}
 
-      {/* PREVIEW DEBUG BAR */}
-      {previewMode && (
+      {/* FLOW CHECK PANEL */}
+      {showLintPanel && !previewMode && (
         <div
           style={{
-            padding: "8px 24px",
-            // backgroundColor: "#f3f4f6",
-            fontSize: "12px",
+            padding: "16px 24px",
             borderBottom: "1px solid #e5e7eb",
-            color: "#6b7280",
-            display: "flex",
-            gap: "16px",
-            alignItems: "center",
           }}
         >
-          <div>
-            <strong>Debug:</strong> Page {currentStepIndex + 1}/
-            {parsedSteps.length}
-          </div>
-          <div>
-            <strong>Fields Filled:</strong> {Object.keys(previewData).length}
-          </div>
-          {currentStep && currentStep.navigationRule && (
-            <div>
-              <strong>Navigation:</strong> {getNextStepLogic()}
-            </div>
-          )}
-          <div style={{ marginLeft: "auto" }}>
-            <strong>Mode:</strong>{" "}
-            <span style={{ color: "#10b981" }}>Preview Active</span>
-          </div>
-        </div>
-      )}
-
-      {/* MAIN CONTENT AREA - Three Panel Layout */}
-      <div style={{ flex: 1, display: "flex", overflow: "hidden" }}>
-        {/* LEFT PANEL - Field Types Palette (Edit Mode Only) */}
-        {!previewMode && (
           <div
             style={{
-              // width: "280px",
-              // backgroundColor: "#f8fafc",
-              borderRight: "1px solid #e2e8f0",
               display: "flex",
-              flexDirection: "column",
-              flex: "0 0 25%",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "12px",
             }}
           >
-            <div style={{ padding: "16px", borderBottom: "1px solid #e2e8f0" }}>
-              <h3
-                style={{
-                  margin: "0 0 12px 0",
-                  fontSize: "14px",
-                  fontWeight: "600",
-                  color: "#1f2937",
-                }}
-              >
-                Add Field Types
-              </h3>
-              <div style={{ fontSize: "12px", color: "#6b7280" }}>
-                Drag or click to add fields to your form
-              </div>
-            </div>
+            <h3 style={{ margin: 0, fontSize: "14px", fontWeight: "600" }}>
+              Flow Check
+            </h3>
+            <button
+              onClick={() => setShowLintPanel(false)}
+              style={{
+                color: "#6b7280",
+                border: "none",
+                padding: "4px",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              ✕
+            </button>
+          </div>
 
-            <div style={{ flex: 1, overflow: "auto", padding: "16px" }}>
+          {flowIssues.length === 0 ? (
+            <div style={{ fontSize: "12px", color: "#059669" }}>
+              ✓ No problems found on any page
+            </div>
+          ) : (
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "12px",
+                maxHeight: "240px",
+                overflow: "auto",
+              }}
+            >
+              {(["error", "warning"] as const).map((level) => {
+                const issues = flowIssues.filter(
+                  (issue) => issue.level === level
+                );
+                if (issues.length === 0) return null;
+
+                return (
+                  <div key={level}>
+                    <div
+                      style={{
+                        fontSize: "12px",
+                        fontWeight: "600",
+                        color: level === "error" ? "#dc2626" : "#a16207",
+                        marginBottom: "4px",
+                      }}
+                    >
+                      {level === "error" ? "❌ Errors" : "⚠️ Warnings"} (
+                      {issues.length})
+                    </div>
+                    {issues.map((issue, index) => (
+                      <button
+                        key={index}
+                        onClick={() => goToLintIssue(issue)}
+                        style={{
+                          display: "block",
+                          width: "100%",
+                          textAlign: "left",
+                          padding: "4px 8px",
+                          border: "none",
+                          borderRadius: "4px",
+                          backgroundColor: "transparent",
+                          cursor: "pointer",
+                          fontSize: "12px",
+                          color: "#374151",
+                        }}
+                        title="Go to this page"
+                      >
+                        <strong>
+                          {parsedSteps.find((s) => s.id === issue.stepId)
+                            ?.name || "Untitled page"}
+                        </strong>
+                        {issue.fieldId && (
+                          <code style={{ marginLeft: "6px", color: "#6b7280" }}>
+                            {issue.fieldId}
+                          </code>
+                        )}
+                        : {issue.message}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* FLOW GRAPH PANEL */}
+      {showFlowGraph && !previewMode && (
+        <div
+          style={{
+            padding: "16px 24px",
+            borderBottom: "1px solid #e5e7eb",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "12px",
+            }}
+          >
+            <h3 style={{ margin: 0, fontSize: "14px", fontWeight: "600" }}>
+              Flow Graph
+            </h3>
+            <button
+              onClick={() => setShowFlowGraph(false)}
+              style={{
+                color: "#6b7280",
+                border: "none",
+                padding: "4px",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              ✕
+            </button>
+          </div>
+
+          <FlowGraph
+            steps={parsedSteps}
+            currentStepId={currentStep?.id}
+            onSelectStep={(index) => {
+              setCurrentStepIndex(index);
+              setSelectedFieldId(null);
+            }}
+            onRetarget={canEdit ? retargetRoute : undefined}
+          />
+        </div>
+      )}
+
+      {/* FLOW SIMULATOR PANEL */}
+      {showSimulator && !previewMode && (
+        <div
+          style={{
+            padding: "16px 24px",
+            borderBottom: "1px solid #e5e7eb",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "12px",
+            }}
+          >
+            <h3 style={{ margin: 0, fontSize: "14px", fontWeight: "600" }}>
+              Flow Simulator
+            </h3>
+            <button
+              onClick={() => setShowSimulator(false)}
+              style={{
+                color: "#6b7280",
+                border: "none",
+                padding: "4px",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              ✕
+            </button>
+          </div>
+
+          <FlowSimulator
+            steps={parsedSteps}
+            onSelectStep={(index) => {
+              setCurrentStepIndex(index);
+              setSelectedFieldId(null);
+            }}
+          />
+        </div>
+      )}
+
+      {/* TEMPLATE HELPER PANEL */}
+      {showTemplateHelper && canEdit && selectedField && (
+        <div
+          style={{
+            padding: "16px 24px",
+            // backgroundColor: "#fefce8",
+            borderBottom: "1px solid #eab308",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "12px",
+            }}
+          >
+            <h3
+              style={{
+                margin: 0,
+                fontSize: "14px",
+                fontWeight: "600",
+                color: "#a16207",
+              }}
+            >
+              Available Templates for "{selectedField.title}"
+            </h3>
+            <button
+              onClick={() => setShowTemplateHelper(false)}
+              style={{
+                // backgroundColor: "transparent",
+                color: "#6b7280",
+                border: "none",
+                padding: "4px",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div
+            style={{
+              padding: "12px",
+              border: "1px solid #e5e7eb",
+              borderRadius: "6px",
+              fontSize: "12px",
+              color: "#6b7280",
+              marginBottom: "12px",
+            }}
+          >
+            Click a template to insert it as the field's default value.
+            Templates are replaced with actual data at runtime.
+          </div>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+            {TEMPLATE_SUGGESTIONS.map((template) => (
+              <button
+                key={template}
+                onClick={() => insertTemplate(selectedField.id, template)}
+                style={{
+                  padding: "6px 12px",
+                  // backgroundColor: "white",
+                  border: "1px solid #d1d5db",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                  fontSize: "12px",
+                  fontFamily: "monospace",
+                  color: "#374151",
+                }}
+              >
+                {template}
+              </button>
+            ))}
+          </div>
+
+          {selectedField &&
+            // selectedField.defaultValue &&
+            typeof selectedField.defaultValue === "string" &&
+            selectedField.defaultValue.startsWith("#") && (
+              <div
+                style={{
+                  marginTop: "12px",
+                  padding: "12px",
+                  // backgroundColor: "#f0f9ff",
+                  border: "1px solid #0ea5e9",
+                  borderRadius: "6px",
+                }}
+              >
+                <div
+                  style={{
+                    fontSize: "12px",
+                    fontWeight: "600",
+                    color: "#0369a1",
+                    marginBottom: "4px",
+                  }}
+                >
+                  Current Template:
+                </div>
+                <div
+                  style={{
+                    fontFamily: "monospace",
+                    fontSize: "12px",
+                    color: "#0369a1",
+                  }}
+                >
+                  {selectedField.defaultValue}
+                </div>
+                <div
+                  style={{
+                    fontSize: "11px",
+                    color: "#6b7280",
+                    marginTop: "4px",
+                  }}
+                >
+                  Preview:{" "}
+                  {processTemplateValue(
+                    selectedField.defaultValue,
+                    buildTemplateContext()
+                  )}
+                </div>
+              </div>
+            )}
+        </div>
+      )}
+
+      {/* PREVIEW DEBUG BAR */}
+      {previewMode && (
+        <div
+          style={{
+            padding: "8px 24px",
+            // backgroundColor: "#f3f4f6",
+            fontSize: "12px",
+            borderBottom: "1px solid #e5e7eb",
+            color: "#6b7280",
+            display: "flex",
+            gap: "16px",
+            alignItems: "center",
+          }}
+        >
+          <div>
+            <strong>Debug:</strong> Page {currentStepIndex + 1}/
+            {parsedSteps.length}
+          </div>
+          <div>
+            <strong>Fields Filled:</strong>{" "}
+            {Object.values(previewData).filter((v) => !isEmptyAnswer(v)).length}
+          </div>
+          <div>
+            <strong>Route:</strong>{" "}
+            {[...previewHistory, currentStepIndex]
+              .map((index) => index + 1)
+              .join(" → ")}
+          </div>
+          {currentStep && currentStep.navigationRule && (
+            <div>
+              <strong>Navigation:</strong> {getNextStepLogic()}
+            </div>
+          )}
+          <div style={{ marginLeft: "auto" }}>
+            <strong>Mode:</strong>{" "}
+            <span style={{ color: "#10b981" }}>Preview Active</span>
+          </div>
+        </div>
+      )}
+
+      {/* MAIN CONTENT AREA - Three Panel Layout */}
+      <div style={{ flex: 1, display: "flex", overflow: "hidden" }}>
+        {/* LEFT PANEL - Field Types Palette (Edit Mode Only) */}
+        {canEdit && (
+          <div
+            style={{
+              // width: "280px",
+              // backgroundColor: "#f8fafc",
+              borderRight: "1px solid #e2e8f0",
+              display: "flex",
+              flexDirection: "column",
+              flex: "0 0 25%",
+            }}
+          >
+            <div style={{ padding: "16px", borderBottom: "1px solid #e2e8f0" }}>
+              <h3
+                style={{
+                  margin: "0 0 12px 0",
+                  fontSize: "14px",
+                  fontWeight: "600",
+                  color: "#1f2937",
+                }}
+              >
+                Add Field Types
+              </h3>
+              <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                Drag or click to add fields to your form
+              </div>
+            </div>
+
+            <div style={{ flex: 1, overflow: "auto", padding: "16px" }}>
               <div
                 style={{
                   display: "grid",
@@ -2364,13 +3124,13 @@ export const FormBuilder: FC = () => {
                   type="text"
                   value={currentStep.name}
                   onChange={(e) => updateStepProperty("name", e.target.value)}
-                  disabled={previewMode}
+                  disabled={!canEdit}
                   style={{
                     fontSize: "18px",
                     fontWeight: "600",
-                    border: previewMode ? "none" : "1px solid #d1d5db",
+                    border: canEdit ? "1px solid #d1d5db" : "none",
                     borderRadius: "4px",
-                    padding: previewMode ? "0" : "6px 8px",
+                    padding: canEdit ? "6px 8px" : "0",
                     // backgroundColor: previewMode ? "transparent" : "white",
                     color: "#1f2937",
                     width: "300px",
@@ -2378,7 +3138,7 @@ export const FormBuilder: FC = () => {
                   placeholder="Page Name"
                 />
 
-                {!previewMode && (
+                {canEdit && (
                   <div
                     style={{
                       display: "flex",
@@ -2390,6 +3150,30 @@ export const FormBuilder: FC = () => {
                       {currentStep.fields.length} field
                       {currentStep.fields.length !== 1 ? "s" : ""}
                     </span>
+                    <button
+                      onClick={() => {
+                        setSelectedFieldId(null);
+                        setShowNavigationEditor(!showNavigationEditor);
+                      }}
+                      style={{
+                        padding: "4px 10px",
+                        border: `1px solid ${
+                          currentStep.navigationRule ? "#8b5cf6" : "#d1d5db"
+                        }`,
+                        borderRadius: "6px",
+                        color: currentStep.navigationRule
+                          ? "#6d28d9"
+                          : "#374151",
+                        cursor: "pointer",
+                        fontSize: "12px",
+                      }}
+                      title="Configure page navigation and page check"
+                    >
+                      🔀{" "}
+                      {currentStep.navigationRule
+                        ? "Branching"
+                        : "Add Branching"}
+                    </button>
                   </div>
                 )}
               </div>
@@ -2399,13 +3183,13 @@ export const FormBuilder: FC = () => {
                 onChange={(e) =>
                   updateStepProperty("description", e.target.value)
                 }
-                disabled={previewMode}
+                disabled={!canEdit}
                 style={{
                   width: "92%",
                   minHeight: "40px",
-                  border: previewMode ? "none" : "1px solid #d1d5db",
+                  border: canEdit ? "1px solid #d1d5db" : "none",
                   borderRadius: "4px",
-                  padding: previewMode ? "0" : "6px 8px",
+                  padding: canEdit ? "6px 8px" : "0",
                   // backgroundColor: previewMode ? "transparent" : "white",
                   fontSize: "13px",
                   color: "#6b7280",
@@ -2462,16 +3246,18 @@ export const FormBuilder: FC = () => {
                     fontWeight: "500",
                   }}
                 >
-                  {previewMode
+                  {!canEdit
                     ? "No fields to preview"
                     : "Start Building Your Form"}
                 </div>
                 <div style={{ fontSize: "14px", marginBottom: "16px" }}>
-                  {previewMode
-                    ? "Switch to edit mode to add fields"
+                  {!canEdit
+                    ? readOnly
+                      ? "This page has no fields"
+                      : "Switch to edit mode to add fields"
                     : "Add fields from the left panel or drag them here"}
                 </div>
-                {!previewMode && (
+                {canEdit && (
                   <div
                     style={{
                       display: "flex",
@@ -2525,12 +3311,65 @@ export const FormBuilder: FC = () => {
             ) : (
               /* Render Form Fields */
               <div style={{ maxWidth: "600px", margin: "0 auto" }}>
+                {/* Error Summary */}
+                {previewValidation &&
+                  !previewValidation.valid &&
+                  previewErrorScope?.stepId === currentStep.id &&
+                  previewErrorScope.fieldIds === "all" && (
+                    <div
+                      role="alert"
+                      style={{
+                        marginBottom: "20px",
+                        padding: "12px",
+                        backgroundColor: "#fef2f2",
+                        border: "1px solid #fecaca",
+                        borderRadius: "6px",
+                        fontSize: "13px",
+                        color: "#b91c1c",
+                      }}
+                    >
+                      <div style={{ fontWeight: "600", marginBottom: "6px" }}>
+                        ⚠️ Please fix {previewValidation.errors.length} problem
+                        {previewValidation.errors.length > 1 ? "s" : ""}
+                      </div>
+                      {flattenFields(currentStep.fields)
+                        .filter((f) => previewValidation.fieldErrors[f.id])
+                        .map((f) => (
+                          <button
+                            key={f.id}
+                            onClick={() => jumpToField(f.id)}
+                            style={{
+                              display: "block",
+                              padding: "2px 0",
+                              border: "none",
+                              background: "none",
+                              color: "#b91c1c",
+                              textDecoration: "underline",
+                              cursor: "pointer",
+                              fontSize: "13px",
+                              textAlign: "left",
+                            }}
+                          >
+                            {f.title}: {previewValidation.fieldErrors[f.id][0]}
+                          </button>
+                        ))}
+                      {previewValidation.pageErrors.map((error, index) => (
+                        <div key={index}>{error}</div>
+                      ))}
+                    </div>
+                  )}
                 {currentStep.fields.map((field: FormField, index: number) => {
                   const isVisible = isFieldVisible(field);
-                  const fieldValue = renderFieldValue(
-                    field,
-                    previewData[field.id]
-                  );
+                  // A group shows its children's values
+                  const fieldValue =
+                    field.type === "group"
+                      ? Object.fromEntries(
+                          (field.fields || []).map((child) => [
+                            child.id,
+                            renderFieldValue(child, previewData[child.id]),
+                          ])
+                        )
+                      : renderFieldValue(field, previewData[field.id]);
 
                   // Skip rendering if field is not visible in preview mode
                   if (previewMode && !isVisible) return null;
@@ -2538,36 +3377,36 @@ export const FormBuilder: FC = () => {
                   return (
                     <div
                       key={field.id}
+                      id={`field-${field.id}`}
+                      onBlur={() => markFieldTouched(field.id)}
                       style={{
                         marginBottom: "20px",
                         opacity: !previewMode && !isVisible ? 0.5 : 1,
                         border:
-                          selectedFieldId === field.id && !previewMode
+                          selectedFieldId === field.id && canEdit
                             ? "2px solid #0ea5e9"
                             : "2px solid transparent",
                         borderRadius: "8px",
                         padding:
-                          selectedFieldId === field.id && !previewMode
+                          selectedFieldId === field.id && canEdit
                             ? "12px"
                             : "0",
                         backgroundColor:
-                          selectedFieldId === field.id && !previewMode
+                          selectedFieldId === field.id && canEdit
                             ? "#f0f9ff"
                             : "transparent",
                         position: "relative",
                         transition: "all 0.2s",
                       }}
-                      onClick={() =>
-                        !previewMode && setSelectedFieldId(field.id)
-                      }
-                      draggable={!previewMode}
+                      onClick={() => canEdit && setSelectedFieldId(field.id)}
+                      draggable={canEdit}
                       onDragStart={(e) =>
-                        !previewMode &&
+                        canEdit &&
                         handleDragStart(e, { type: "field", field, index })
                       }
                     >
                       {/* Field Controls - Edit Mode Only */}
-                      {!previewMode && selectedFieldId === field.id && (
+                      {canEdit && selectedFieldId === field.id && (
                         <div
                           style={{
                             position: "absolute",
@@ -2712,255 +3551,54 @@ export const FormBuilder: FC = () => {
                           </label>
 
                           {/* Enhanced Field Input Rendering */}
-                          {field.type === "text" && (
-                            <input
-                              type="text"
-                              value={fieldValue || ""}
-                              onChange={(e) =>
-                                updatePreviewData(field.id, e.target.value)
-                              }
-                              placeholder={field.placeholder}
-                              disabled={field.readOnly}
-                              style={{
-                                padding: "8px 12px",
-                                border: "1px solid #d1d5db",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                              }}
-                            />
-                          )}
-
-                          {field.type === "textarea" && (
-                            <textarea
-                              value={fieldValue || ""}
-                              onChange={(e) =>
-                                updatePreviewData(field.id, e.target.value)
-                              }
-                              placeholder={field.placeholder}
-                              disabled={field.readOnly}
-                              rows={4}
-                              style={{
-                                width: "92%",
-                                padding: "8px 12px",
-                                border: "1px solid #d1d5db",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                                resize: "vertical",
-                                fontFamily: "inherit",
-                              }}
-                            />
-                          )}
-
-                          {field.type === "select" && (
-                            <select
-                              value={fieldValue || ""}
-                              onChange={(e) =>
-                                updatePreviewData(field.id, e.target.value)
-                              }
-                              disabled={field.readOnly}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #ccc",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                              }}
-                            >
-                              <option value="">Choose an option...</option>
-                              {field.options?.map((option, optIndex) => (
-                                <option key={optIndex} value={option}>
-                                  {option}
-                                </option>
-                              ))}
-                            </select>
-                          )}
-
-                          {field.type === "radio" && (
-                            <div
-                              style={{
-                                display: "flex",
-                                flexDirection: "column",
-                                gap: "8px",
-                              }}
-                            >
-                              {field.options?.map((option, optIndex) => (
-                                <label
-                                  key={optIndex}
-                                  style={{
-                                    display: "flex",
-                                    alignItems: "flex-start",
-                                    gap: "8px",
-                                    cursor: "pointer",
-                                  }}
-                                >
-                                  <input
-                                    type="radio"
-                                    name={field.id}
-                                    value={option}
-                                    checked={fieldValue === option}
-                                    onChange={(e) =>
-                                      updatePreviewData(
-                                        field.id,
-                                        e.target.value
-                                      )
-                                    }
-                                    disabled={field.readOnly}
-                                    style={{ marginTop: "2px" }}
-                                  />
-                                  <span
-                                    style={{
-                                      fontSize: "14px",
-                                      whiteSpace: "pre-line",
-                                      lineHeight: "1.4",
-                                    }}
-                                  >
-                                    {option}
-                                  </span>
-                                </label>
-                              ))}
-                            </div>
-                          )}
-
-                          {field.type === "checkbox" && (
-                            <div
-                              style={{
-                                display: "flex",
-                                flexDirection: "column",
-                                gap: "8px",
-                              }}
-                            >
-                              {field.options?.map((option, optIndex) => {
-                                const selectedValues = Array.isArray(fieldValue)
-                                  ? fieldValue
-                                  : [];
-                                return (
-                                  <label
-                                    key={optIndex}
-                                    style={{
-                                      display: "flex",
-                                      alignItems: "flex-start",
-                                      gap: "8px",
-                                      cursor: "pointer",
-                                    }}
-                                  >
-                                    <input
-                                      type="checkbox"
-                                      checked={selectedValues.includes(option)}
-                                      onChange={(e) => {
-                                        const currentValues = Array.isArray(
-                                          fieldValue
-                                        )
-                                          ? fieldValue
-                                          : [];
-                                        const newValues = e.target.checked
-                                          ? [...currentValues, option]
-                                          : currentValues.filter(
-                                              (v) => v !== option
-                                            );
-                                        updatePreviewData(field.id, newValues);
-                                      }}
-                                      disabled={field.readOnly}
-                                      style={{ marginTop: "2px" }}
-                                    />
-                                    <span
-                                      style={{
-                                        fontSize: "14px",
-                                        whiteSpace: "pre-line",
-                                        lineHeight: "1.4",
-                                      }}
-                                    >
-                                      {option}
-                                    </span>
-                                  </label>
-                                );
-                              })}
-                            </div>
-                          )}
+                          <FieldInput
+                            field={field}
+                            value={fieldValue}
+                            onChange={(value) =>
+                              field.type === "group"
+                                ? Object.entries(value as StepAnswers).forEach(
+                                    ([childId, childValue]) =>
+                                      updatePreviewData(childId, childValue)
+                                  )
+                                : updatePreviewData(field.id, value)
+                            }
+                            isVisible={previewMode ? isFieldVisible : undefined}
+                            errors={shownFieldErrors}
+                            onFieldBlur={markFieldTouched}
+                            onError={(message) => {
+                              setSaveStatus(message);
+                              setTimeout(() => setSaveStatus(""), 5000);
+                            }}
+                          />
+                          <FieldErrorList
+                            messages={shownFieldErrors[field.id]}
+                          />
 
-                          {field.type === "file" && (
-                            <div>
-                              <input
-                                type="file"
-                                onChange={(e) =>
-                                  handleFileUpload(field.id, e.target.files)
-                                }
-                                accept={field.acceptedFileTypes?.join(",")}
-                                multiple={field.multiple}
-                                disabled={field.readOnly}
-                                style={{
-                                  padding: "8px 12px",
-                                  border: "1px solid #d1d5db",
-                                  borderRadius: "6px",
-                                  fontSize: "14px",
-                                }}
-                              />
-                              {field.maxFileSize && (
+                          {/* Conditional visibility indicator */}
+                          {!previewMode &&
+                            (() => {
+                              const condition = getVisibilityCondition(
+                                field,
+                                flowFields
+                              );
+                              return condition || !isVisible ? (
                                 <div
                                   style={{
-                                    fontSize: "12px",
-                                    color: "#6b7280",
+                                    fontSize: "11px",
+                                    color: isVisible ? "#10b981" : "#ef4444",
                                     marginTop: "4px",
+                                    fontStyle: "italic",
                                   }}
                                 >
-                                  Max size: {field.maxFileSize}MB
-                                  {field.acceptedFileTypes &&
-                                    ` • Types: ${field.acceptedFileTypes.join(
-                                      ", "
-                                    )}`}
+                                  {condition
+                                    ? `Shown when: ${describeConditionGroup(
+                                        condition,
+                                        flowFields
+                                      )}`
+                                    : "Hidden in preview"}
                                 </div>
-                              )}
-                              {fieldValue && (
-                                <div
-                                  style={{
-                                    marginTop: "8px",
-                                    fontSize: "12px",
-                                    color: "#10b981",
-                                  }}
-                                >
-                                  ✓{" "}
-                                  {Array.isArray(fieldValue)
-                                    ? `${fieldValue.length} files`
-                                    : "1 file"}{" "}
-                                  selected
-                                </div>
-                              )}
-                            </div>
-                          )}
-
-                          {field.type === "readonly" && (
-                            <div
-                              style={{
-                                padding: "8px 12px",
-                                backgroundColor: "#f9fafb",
-                                border: "1px solid #e5e7eb",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                                color: "#374151",
-                                whiteSpace: "pre-line",
-                                lineHeight: "1.4",
-                              }}
-                            >
-                              {fieldValue ||
-                                field.placeholder ||
-                                "Read-only content"}
-                            </div>
-                          )}
-
-                          {/* Conditional visibility indicator */}
-                          {!previewMode && (field.dependsOn || !isVisible) && (
-                            <div
-                              style={{
-                                fontSize: "11px",
-                                color: isVisible ? "#10b981" : "#ef4444",
-                                marginTop: "4px",
-                                fontStyle: "italic",
-                              }}
-                            >
-                              {field.dependsOn
-                                ? `Depends on: ${field.dependsOn} = "${field.showWhen}"`
-                                : "Hidden in preview"}
-                            </div>
-                          )}
+                              ) : null;
+                            })()}
                         </div>
                       )}
                     </div>
@@ -2984,21 +3622,17 @@ export const FormBuilder: FC = () => {
             >
               <div style={{ display: "flex", gap: "8px" }}>
                 <button
-                  onClick={() => {
-                    if (currentStepIndex > 0) {
-                      setCurrentStepIndex(currentStepIndex - 1);
-                      setPreviewData({});
-                    }
-                  }}
-                  disabled={currentStepIndex === 0}
+                  onClick={goToPreviousStep}
+                  disabled={previewHistory.length === 0}
                   style={{
                     padding: "8px 16px",
                     backgroundColor:
-                      currentStepIndex === 0 ? "#9ca3af" : "#6b7280",
+                      previewHistory.length === 0 ? "#9ca3af" : "#6b7280",
                     // color: "white",
                     border: "none",
                     borderRadius: "6px",
-                    cursor: currentStepIndex === 0 ? "not-allowed" : "pointer",
+                    cursor:
+                      previewHistory.length === 0 ? "not-allowed" : "pointer",
                     fontSize: "14px",
                   }}
                 >
@@ -3058,7 +3692,7 @@ export const FormBuilder: FC = () => {
         </div>
 
         {/* RIGHT PANEL - Field Configuration (Edit Mode Only) */}
-        {!previewMode && selectedField && (
+        {canEdit && selectedField && (
           <div
             style={{
               minWidth: "320px",
@@ -3154,7 +3788,11 @@ export const FormBuilder: FC = () => {
                     type="text"
                     value={selectedField.title}
                     onChange={(e) =>
-                      updateField(selectedField.id, { title: e.target.value })
+                      updateField(
+                        selectedField.id,
+                        { title: e.target.value },
+                        `title:${selectedField.id}`
+                      )
                     }
                     style={{
                       padding: "6px 8px",
@@ -3165,8 +3803,41 @@ export const FormBuilder: FC = () => {
                   />
                 </div>
 
+                {/* Field ID */}
+                <div
+                  style={{
+                    display: "flex",
+                    flexDirection: "column",
+                    width: "100%",
+                  }}
+                >
+                  <label
+                    style={{
+                      display: "block",
+                      fontSize: "12px",
+                      fontWeight: "500",
+                      color: "#374151",
+                      marginBottom: "4px",
+                    }}
+                  >
+                    Field ID
+                  </label>
+                  <FieldIdInput
+                    key={selectedField.id}
+                    fieldId={selectedField.id}
+                    takenIds={flattenFields(flowFields)
+                      .map((f) => f.id)
+                      .filter((id) => id !== selectedField.id)}
+                    onRename={(newId) =>
+                      renameSelectedField(selectedField.id, newId)
+                    }
+                  />
+                </div>
+
                 {/* Required */}
-                {selectedField.type !== "title" && (
+                {!["title", "group", "calculated"].includes(
+                  selectedField.type
+                ) && (
                   <div>
                     <label
                       style={{
@@ -3222,9 +3893,13 @@ export const FormBuilder: FC = () => {
                       type="text"
                       value={selectedField.placeholder || ""}
                       onChange={(e) =>
-                        updateField(selectedField.id, {
-                          placeholder: e.target.value,
-                        })
+                        updateField(
+                          selectedField.id,
+                          {
+                            placeholder: e.target.value,
+                          },
+                          `placeholder:${selectedField.id}`
+                        )
                       }
                       style={{
                         padding: "6px 8px",
@@ -3246,92 +3921,33 @@ export const FormBuilder: FC = () => {
                         display: "flex",
                         alignItems: "center",
                         justifyContent: "space-between",
-                        marginBottom: "4px",
-                      }}
-                    >
-                      <label
-                        style={{
-                          fontSize: "12px",
-                          fontWeight: "500",
-                          color: "#374151",
-                        }}
-                      >
-                        Options (one per line)
-                      </label>
-                    </div>
-                    <textarea
-                      value={selectedField.options?.join("\n") || ""}
-                      onChange={(e) =>
-                        updateField(selectedField.id, {
-                          options: parseFieldOptions(e.target.value),
-                        })
-                      }
-                      rows={4}
-                      style={{
-                        width: "92%",
-                        padding: "6px 8px",
-                        border: "1px solid #d1d5db",
-                        borderRadius: "4px",
-                        fontSize: "12px",
-                        fontFamily: "inherit",
-                        resize: "vertical",
-                      }}
-                      placeholder="Option 1&#10;Option 2&#10;Option 3"
-                    />
-                  </div>
-                )}
-
-                {/* Default Value */}
-                <div
-                  style={{
-                    display: "flex",
-                    flexDirection: "column",
-                    width: "100%",
-                  }}
-                >
-                  <div
-                    style={{
-                      display: "flex",
-                      alignItems: "center",
-                      justifyContent: "space-between",
-                      marginBottom: "4px",
-                    }}
-                  >
-                    <label
-                      style={{
-                        fontSize: "12px",
-                        fontWeight: "500",
-                        color: "#374151",
-                      }}
-                    >
-                      Default Value
-                    </label>
-                    <button
-                      onClick={() => setShowTemplateHelper(true)}
-                      style={{
-                        padding: "2px 6px",
-                        backgroundColor: "#fef3c7",
-                        border: "1px solid #f59e0b",
-                        borderRadius: "3px",
-                        fontSize: "10px",
-                        color: "#92400e",
-                        cursor: "pointer",
+                        marginBottom: "4px",
                       }}
                     >
-                      Templates
-                    </button>
-                  </div>
-
-                  {selectedField.type === "textarea" ? (
+                      <label
+                        style={{
+                          fontSize: "12px",
+                          fontWeight: "500",
+                          color: "#374151",
+                        }}
+                      >
+                        Options (one per line)
+                      </label>
+                    </div>
                     <textarea
-                      value={selectedField.defaultValue?.toString() || ""}
+                      value={selectedField.options?.join("\n") || ""}
                       onChange={(e) =>
-                        updateField(selectedField.id, {
-                          defaultValue: e.target.value,
-                        })
+                        updateField(
+                          selectedField.id,
+                          {
+                            options: parseFieldOptions(e.target.value),
+                          },
+                          `options:${selectedField.id}`
+                        )
                       }
-                      rows={3}
+                      rows={4}
                       style={{
+                        width: "92%",
                         padding: "6px 8px",
                         border: "1px solid #d1d5db",
                         borderRadius: "4px",
@@ -3339,61 +3955,136 @@ export const FormBuilder: FC = () => {
                         fontFamily: "inherit",
                         resize: "vertical",
                       }}
-                      placeholder="Default text or #template"
+                      placeholder="Option 1&#10;Option 2&#10;Option 3"
                     />
-                  ) : selectedField.type === "checkbox" ? (
+                  </div>
+                )}
+
+                {/* Default Value */}
+                {!["signature", "repeater", "group", "calculated"].includes(
+                  selectedField.type
+                ) && (
+                  <div
+                    style={{
+                      display: "flex",
+                      flexDirection: "column",
+                      width: "100%",
+                    }}
+                  >
                     <div
                       style={{
-                        fontSize: "11px",
-                        color: "#6b7280",
-                        fontStyle: "italic",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "space-between",
+                        marginBottom: "4px",
                       }}
                     >
-                      Checkbox values are managed through options
+                      <label
+                        style={{
+                          fontSize: "12px",
+                          fontWeight: "500",
+                          color: "#374151",
+                        }}
+                      >
+                        Default Value
+                      </label>
+                      <button
+                        onClick={() => setShowTemplateHelper(true)}
+                        style={{
+                          padding: "2px 6px",
+                          backgroundColor: "#fef3c7",
+                          border: "1px solid #f59e0b",
+                          borderRadius: "3px",
+                          fontSize: "10px",
+                          color: "#92400e",
+                          cursor: "pointer",
+                        }}
+                      >
+                        Templates
+                      </button>
                     </div>
-                  ) : (
-                    <input
-                      type="text"
-                      // value={""}
-                      value={selectedField.defaultValue?.toString() || ""}
-                      onChange={(e) =>
-                        updateField(selectedField.id, {
-                          defaultValue: e.target.value,
-                        })
-                      }
-                      style={{
-                        padding: "6px 8px",
-                        border: "1px solid #d1d5db",
-                        borderRadius: "4px",
-                        fontSize: "12px",
-                      }}
-                      placeholder="Default value or #template"
-                    />
-                  )}
 
-                  {/* Template preview */}
-                  {selectedField &&
-                    typeof selectedField.defaultValue === "string" &&
-                    selectedField.defaultValue.startsWith("#") && (
+                    {selectedField.type === "textarea" ? (
+                      <textarea
+                        value={selectedField.defaultValue?.toString() || ""}
+                        onChange={(e) =>
+                          updateField(
+                            selectedField.id,
+                            {
+                              defaultValue: e.target.value,
+                            },
+                            `defaultValue:${selectedField.id}`
+                          )
+                        }
+                        rows={3}
+                        style={{
+                          padding: "6px 8px",
+                          border: "1px solid #d1d5db",
+                          borderRadius: "4px",
+                          fontSize: "12px",
+                          fontFamily: "inherit",
+                          resize: "vertical",
+                        }}
+                        placeholder="Default text or #template"
+                      />
+                    ) : selectedField.type === "checkbox" ? (
                       <div
                         style={{
-                          marginTop: "4px",
-                          padding: "4px 6px",
-                          backgroundColor: "#f0f9ff",
-                          border: "1px solid #bae6fd",
-                          borderRadius: "3px",
-                          fontSize: "10px",
-                          color: "#0369a1",
+                          fontSize: "11px",
+                          color: "#6b7280",
+                          fontStyle: "italic",
                         }}
                       >
-                        Preview:{" "}
-                        {processTemplateValue(
-                          selectedField.defaultValue,
-                          buildTemplateContext()
-                        )}
+                        Checkbox values are managed through options
                       </div>
+                    ) : (
+                      <input
+                        type="text"
+                        // value={""}
+                        value={selectedField.defaultValue?.toString() || ""}
+                        onChange={(e) =>
+                          updateField(
+                            selectedField.id,
+                            {
+                              defaultValue: e.target.value,
+                            },
+                            `defaultValue:${selectedField.id}`
+                          )
+                        }
+                        style={{
+                          padding: "6px 8px",
+                          border: "1px solid #d1d5db",
+                          borderRadius: "4px",
+                          fontSize: "12px",
+                        }}
+                        placeholder="Default value or #template"
+                      />
                     )}
-                </div>
+
+                    {/* Template preview */}
+                    {selectedField &&
+                      typeof selectedField.defaultValue === "string" &&
+                      selectedField.defaultValue.startsWith("#") && (
+                        <div
+                          style={{
+                            marginTop: "4px",
+                            padding: "4px 6px",
+                            backgroundColor: "#f0f9ff",
+                            border: "1px solid #bae6fd",
+                            borderRadius: "3px",
+                            fontSize: "10px",
+                            color: "#0369a1",
+                          }}
+                        >
+                          Preview:{" "}
+                          {processTemplateValue(
+                            selectedField.defaultValue,
+                            buildTemplateContext()
+                          )}
+                        </div>
+                      )}
+                  </div>
+                )}
 
                 {/* Read Only */}
                 <div>
@@ -3427,7 +4118,9 @@ export const FormBuilder: FC = () => {
                 </div>
 
                 {/* Field Dependencies */}
-                {dependencySourceFields.length > 0 && (
+                {(dependencySourceGroups.length > 0 ||
+                  selectedField.visibleWhen ||
+                  selectedField.dependsOn) && (
                   <div>
                     <label
                       style={{
@@ -3441,41 +4134,60 @@ export const FormBuilder: FC = () => {
                       Show When (Conditional)
                     </label>
 
-                    <select
-                      value={selectedField.dependsOn || ""}
-                      onChange={(e) =>
-                        updateField(selectedField.id, {
-                          dependsOn: e.target.value || undefined,
-                          showWhen: e.target.value ? "" : undefined,
-                        })
+                    <ConditionEditor
+                      value={getVisibilityCondition(selectedField, flowFields)}
+                      onChange={(visibleWhen) =>
+                        // Editing replaces an older dependsOn/showWhen pair
+                        updateField(
+                          selectedField.id,
+                          {
+                            visibleWhen,
+                            dependsOn: undefined,
+                            showWhen: undefined,
+                          },
+                          `visibleWhen:${selectedField.id}`
+                        )
                       }
-                      style={{
-                        width: "100%",
-                        padding: "6px 8px",
-                        border: "1px solid #d1d5db",
-                        borderRadius: "4px",
-                        fontSize: "12px",
-                        marginBottom: "8px",
-                      }}
-                    >
-                      <option value="">Always show</option>
-                      {dependencySourceFields.map((depField) => (
-                        <option key={depField.id} value={depField.id}>
-                          Depends on: {depField.title}
-                        </option>
-                      ))}
-                    </select>
+                      sources={dependencySourceGroups}
+                    />
+                    <FieldErrorList
+                      messages={checkVisibilityCondition(
+                        selectedField,
+                        flowFields
+                      )}
+                    />
+                  </div>
+                )}
 
-                    {selectedField.dependsOn && (
+                {/* File Upload Settings */}
+                {selectedField.type === "file" && (
+                  <>
+                    <div>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "12px",
+                          fontWeight: "500",
+                          color: "#374151",
+                          marginBottom: "4px",
+                        }}
+                      >
+                        Accepted File Types
+                      </label>
                       <input
                         type="text"
-                        value={selectedField.showWhen || ""}
+                        value={
+                          selectedField.acceptedFileTypes?.join(", ") || ""
+                        }
                         onChange={(e) =>
                           updateField(selectedField.id, {
-                            showWhen: e.target.value,
+                            acceptedFileTypes: e.target.value
+                              .split(",")
+                              .map((s) => s.trim())
+                              .filter(Boolean),
                           })
                         }
-                        placeholder="Value to show this field"
+                        placeholder="image/*, .pdf, .doc"
                         style={{
                           width: "100%",
                           padding: "6px 8px",
@@ -3484,14 +4196,216 @@ export const FormBuilder: FC = () => {
                           fontSize: "12px",
                         }}
                       />
-                    )}
+                    </div>
+
+                    <div>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "12px",
+                          fontWeight: "500",
+                          color: "#374151",
+                          marginBottom: "4px",
+                        }}
+                      >
+                        Max File Size (MB)
+                      </label>
+                      <input
+                        type="number"
+                        value={selectedField.maxFileSize || 10}
+                        onChange={(e) =>
+                          updateField(selectedField.id, {
+                            maxFileSize: parseInt(e.target.value),
+                          })
+                        }
+                        min={1}
+                        max={100}
+                        style={{
+                          width: "100%",
+                          padding: "6px 8px",
+                          border: "1px solid #d1d5db",
+                          borderRadius: "4px",
+                          fontSize: "12px",
+                        }}
+                      />
+                    </div>
+
+                    <div>
+                      <label
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "8px",
+                          cursor: "pointer",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedField.multiple}
+                          onChange={(e) =>
+                            updateField(selectedField.id, {
+                              multiple: e.target.checked,
+                            })
+                          }
+                        />
+                        <span
+                          style={{
+                            fontSize: "12px",
+                            fontWeight: "500",
+                            color: "#374151",
+                          }}
+                        >
+                          Allow Multiple Files
+                        </span>
+                      </label>
+                    </div>
+                  </>
+                )}
+
+                {/* Date Settings */}
+                {DATE_FIELD_TYPES.includes(selectedField.type) && (
+                  <div
+                    style={{
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: "8px",
+                    }}
+                  >
+                    {(
+                      [
+                        ["earliest", "Earliest"],
+                        ["latest", "Latest"],
+                      ] as ["earliest" | "latest", string][]
+                    ).map(([key, label]) => {
+                      const setting = selectedField[key];
+                      const resolved = setting
+                        ? resolveDateValue(selectedField.type, setting)
+                        : null;
+                      return (
+                        <div key={key}>
+                          <label
+                            style={{
+                              display: "block",
+                              fontSize: "12px",
+                              fontWeight: "500",
+                              color: "#374151",
+                              marginBottom: "4px",
+                            }}
+                          >
+                            {label}
+                          </label>
+                          <input
+                            type="text"
+                            value={setting || ""}
+                            onChange={(e) =>
+                              updateField(
+                                selectedField.id,
+                                { [key]: e.target.value.trim() || undefined },
+                                `${key}:${selectedField.id}`
+                              )
+                            }
+                            placeholder={DATE_FORMAT_HINTS[selectedField.type]}
+                            style={{
+                              width: "100%",
+                              padding: "6px 8px",
+                              border: `1px solid ${
+                                setting && !resolved ? "#fca5a5" : "#d1d5db"
+                              }`,
+                              borderRadius: "4px",
+                              fontSize: "12px",
+                              boxSizing: "border-box",
+                            }}
+                          />
+                          {setting && (
+                            <div
+                              style={{
+                                fontSize: "10px",
+                                marginTop: "2px",
+                                color: resolved ? "#0369a1" : "#dc2626",
+                              }}
+                            >
+                              {resolved
+                                ? `Today this is ${resolved}`
+                                : `Not a valid ${selectedField.type}`}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    <div
+                      style={{
+                        fontSize: "11px",
+                        color: "#6b7280",
+                        fontStyle: "italic",
+                      }}
+                    >
+                      Limits and the default value accept "today", "today+7",
+                      "today-30" or "now"
+                    </div>
                   </div>
                 )}
 
-                {/* File Upload Settings */}
-                {selectedField.type === "file" && (
-                  <>
-                    <div>
+                {/* Number Settings */}
+                {NUMERIC_FIELD_TYPES.includes(selectedField.type) && (
+                  <div
+                    style={{
+                      display: "grid",
+                      gridTemplateColumns: "1fr 1fr",
+                      gap: "8px",
+                    }}
+                  >
+                    {(
+                      [
+                        ["min", "Minimum"],
+                        ["max", "Maximum"],
+                        ["step", "Step"],
+                        ...(selectedField.type === "number"
+                          ? [["precision", "Decimal Places"]]
+                          : []),
+                      ] as ["min" | "max" | "step" | "precision", string][]
+                    ).map(([key, label]) => (
+                      <div key={key}>
+                        <label
+                          style={{
+                            display: "block",
+                            fontSize: "12px",
+                            fontWeight: "500",
+                            color: "#374151",
+                            marginBottom: "4px",
+                          }}
+                        >
+                          {label}
+                        </label>
+                        <input
+                          type="number"
+                          value={selectedField[key] ?? ""}
+                          onChange={(e) =>
+                            updateField(
+                              selectedField.id,
+                              {
+                                [key]:
+                                  e.target.value === ""
+                                    ? undefined
+                                    : Number(e.target.value),
+                              },
+                              `${key}:${selectedField.id}`
+                            )
+                          }
+                          min={key === "precision" ? 0 : undefined}
+                          step={key === "precision" ? 1 : "any"}
+                          placeholder="None"
+                          style={{
+                            width: "100%",
+                            padding: "6px 8px",
+                            border: "1px solid #d1d5db",
+                            borderRadius: "4px",
+                            fontSize: "12px",
+                            boxSizing: "border-box",
+                          }}
+                        />
+                      </div>
+                    ))}
+                    <div style={{ gridColumn: "1 / -1" }}>
                       <label
                         style={{
                           display: "block",
@@ -3501,65 +4415,496 @@ export const FormBuilder: FC = () => {
                           marginBottom: "4px",
                         }}
                       >
-                        Accepted File Types
+                        Unit
                       </label>
                       <input
                         type="text"
-                        value={
-                          selectedField.acceptedFileTypes?.join(", ") || ""
-                        }
+                        value={selectedField.unit || ""}
                         onChange={(e) =>
-                          updateField(selectedField.id, {
-                            acceptedFileTypes: e.target.value
-                              .split(",")
-                              .map((s) => s.trim())
-                              .filter(Boolean),
-                          })
+                          updateField(
+                            selectedField.id,
+                            { unit: e.target.value || undefined },
+                            `unit:${selectedField.id}`
+                          )
                         }
-                        placeholder="image/*, .pdf, .doc"
+                        placeholder="e.g. kWh, m³, pcs"
                         style={{
                           width: "100%",
                           padding: "6px 8px",
                           border: "1px solid #d1d5db",
                           borderRadius: "4px",
                           fontSize: "12px",
+                          boxSizing: "border-box",
                         }}
                       />
                     </div>
+                  </div>
+                )}
 
-                    <div>
-                      <label
+                {/* Validation Rules */}
+                {(TEXT_FIELD_TYPES.includes(selectedField.type) ||
+                  selectedField.type === "checkbox") &&
+                  (() => {
+                    const limitKeys = (
+                      TEXT_FIELD_TYPES.includes(selectedField.type)
+                        ? [
+                            ["minLength", "Min Length"],
+                            ["maxLength", "Max Length"],
+                          ]
+                        : [
+                            ["minSelections", "Min Selections"],
+                            ["maxSelections", "Max Selections"],
+                          ]
+                    ) as [
+                      (
+                        | "minLength"
+                        | "maxLength"
+                        | "minSelections"
+                        | "maxSelections"
+                      ),
+                      string,
+                    ][];
+                    const preset = findPatternPreset(selectedField.pattern);
+                    const messageKeys = (
+                      [
+                        ["required", "Required"],
+                        ["minLength", "Too short"],
+                        ["maxLength", "Too long"],
+                        ["pattern", "Wrong format"],
+                        ["minSelections", "Too few selected"],
+                        ["maxSelections", "Too many selected"],
+                      ] as [ValidationMessageKey, string][]
+                    ).filter(([key]) =>
+                      key === "required"
+                        ? selectedField.required
+                        : selectedField[key] !== undefined &&
+                          selectedField[key] !== ""
+                    );
+                    const labelStyle = {
+                      display: "block",
+                      fontSize: "12px",
+                      fontWeight: "500",
+                      color: "#374151",
+                      marginBottom: "4px",
+                    };
+                    const inputStyle = {
+                      width: "100%",
+                      padding: "6px 8px",
+                      border: "1px solid #d1d5db",
+                      borderRadius: "4px",
+                      fontSize: "12px",
+                      boxSizing: "border-box" as const,
+                    };
+
+                    return (
+                      <div
                         style={{
-                          display: "block",
-                          fontSize: "12px",
-                          fontWeight: "500",
-                          color: "#374151",
-                          marginBottom: "4px",
+                          display: "flex",
+                          flexDirection: "column",
+                          gap: "8px",
                         }}
                       >
-                        Max File Size (MB)
-                      </label>
+                        <div
+                          style={{
+                            display: "grid",
+                            gridTemplateColumns: "1fr 1fr",
+                            gap: "8px",
+                          }}
+                        >
+                          {limitKeys.map(([key, label]) => (
+                            <div key={key}>
+                              <label style={labelStyle}>{label}</label>
+                              <input
+                                type="number"
+                                value={selectedField[key] ?? ""}
+                                onChange={(e) =>
+                                  updateField(
+                                    selectedField.id,
+                                    {
+                                      [key]:
+                                        e.target.value === ""
+                                          ? undefined
+                                          : Number(e.target.value),
+                                    },
+                                    `${key}:${selectedField.id}`
+                                  )
+                                }
+                                min={0}
+                                step={1}
+                                placeholder="None"
+                                style={inputStyle}
+                              />
+                            </div>
+                          ))}
+                        </div>
+
+                        {TEXT_FIELD_TYPES.includes(selectedField.type) && (
+                          <div>
+                            <label style={labelStyle}>Format</label>
+                            <select
+                              value={
+                                preset ??
+                                (selectedField.pattern ? "custom" : "")
+                              }
+                              onChange={(e) =>
+                                updateField(selectedField.id, {
+                                  pattern:
+                                    e.target.value === ""
+                                      ? undefined
+                                      : e.target.value === "custom"
+                                      ? selectedField.pattern || ".*"
+                                      : PATTERN_PRESETS[e.target.value].pattern,
+                                })
+                              }
+                              style={inputStyle}
+                            >
+                              <option value="">Any text</option>
+                              {Object.entries(PATTERN_PRESETS).map(
+                                ([key, { label }]) => (
+                                  <option key={key} value={key}>
+                                    {label}
+                                  </option>
+                                )
+                              )}
+                              <option value="custom">Custom pattern…</option>
+                            </select>
+                            {selectedField.pattern !== undefined && !preset && (
+                              <>
+                                <input
+                                  type="text"
+                                  value={selectedField.pattern}
+                                  onChange={(e) =>
+                                    updateField(
+                                      selectedField.id,
+                                      { pattern: e.target.value },
+                                      `pattern:${selectedField.id}`
+                                    )
+                                  }
+                                  placeholder="^[A-Z]{3}-\d{4}$"
+                                  spellCheck={false}
+                                  style={{
+                                    ...inputStyle,
+                                    marginTop: "6px",
+                                    fontFamily: "monospace",
+                                  }}
+                                />
+                                {selectedField.pattern &&
+                                  !compileFieldPattern(
+                                    selectedField.pattern
+                                  ) && (
+                                    <div
+                                      style={{
+                                        marginTop: "4px",
+                                        fontSize: "11px",
+                                        color: "#dc2626",
+                                      }}
+                                    >
+                                      ❌ Not a valid regular expression
+                                    </div>
+                                  )}
+                              </>
+                            )}
+                          </div>
+                        )}
+
+                        {messageKeys.length > 0 && (
+                          <div>
+                            <label style={labelStyle}>Error Messages</label>
+                            <div
+                              style={{
+                                display: "flex",
+                                flexDirection: "column",
+                                gap: "4px",
+                              }}
+                            >
+                              {messageKeys.map(([key, label]) => (
+                                <input
+                                  key={key}
+                                  type="text"
+                                  value={
+                                    selectedField.errorMessages?.[key] || ""
+                                  }
+                                  onChange={(e) =>
+                                    updateField(
+                                      selectedField.id,
+                                      {
+                                        errorMessages: {
+                                          ...selectedField.errorMessages,
+                                          [key]: e.target.value || undefined,
+                                        },
+                                      },
+                                      `errorMessages:${selectedField.id}`
+                                    )
+                                  }
+                                  placeholder={`${label} (default message)`}
+                                  style={inputStyle}
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                {/* Formula */}
+                {selectedField.type === "calculated" &&
+                  (() => {
+                    const formula = selectedField.formula ?? "";
+                    const formulaSources = getPageFieldGroups(
+                      (f) =>
+                        !!getFieldAnswerType(f) && f.id !== selectedField.id
+                    );
+                    const problems = formula.trim()
+                      ? checkStepFormulas(
+                          { ...currentStep, fields: [selectedField] },
+                          flowFields
+                        )
+                      : [];
+
+                    return (
+                      <div
+                        style={{
+                          display: "flex",
+                          flexDirection: "column",
+                          gap: "8px",
+                        }}
+                      >
+                        <div>
+                          <label
+                            style={{
+                              display: "block",
+                              fontSize: "12px",
+                              fontWeight: "500",
+                              color: "#374151",
+                              marginBottom: "4px",
+                            }}
+                          >
+                            Formula
+                          </label>
+                          <div
+                            style={{
+                              fontSize: "11px",
+                              color: "#6b7280",
+                              marginBottom: "6px",
+                            }}
+                          >
+                            Read answers from this page or earlier ones with
+                            formData.fieldId, e.g. formData.hours *
+                            formData.rate
+                          </div>
+                          <textarea
+                            value={formula}
+                            onChange={(e) =>
+                              updateField(
+                                selectedField.id,
+                                { formula: e.target.value },
+                                `formula:${selectedField.id}`
+                              )
+                            }
+                            rows={3}
+                            spellCheck={false}
+                            style={{
+                              width: "100%",
+                              padding: "6px 8px",
+                              border: `1px solid ${
+                                problems.length === 0 ? "#d1d5db" : "#fca5a5"
+                              }`,
+                              borderRadius: "4px",
+                              fontSize: "12px",
+                              fontFamily: "monospace",
+                              resize: "vertical",
+                              boxSizing: "border-box",
+                            }}
+                          />
+                          {formulaSources.map((group, index) => (
+                            <div
+                              key={index}
+                              style={{
+                                display: "flex",
+                                flexWrap: "wrap",
+                                alignItems: "center",
+                                gap: "4px",
+                                marginTop: "4px",
+                              }}
+                            >
+                              <span
+                                style={{ fontSize: "10px", color: "#6b7280" }}
+                              >
+                                {group.label}:
+                              </span>
+                              {group.fields.map((f) => (
+                                <button
+                                  key={f.id}
+                                  onClick={() =>
+                                    updateField(
+                                      selectedField.id,
+                                      {
+                                        formula: `${
+                                          formula ? `${formula} ` : ""
+                                        }formData.${f.id}`,
+                                      },
+                                      `formula:${selectedField.id}`
+                                    )
+                                  }
+                                  style={{
+                                    padding: "2px 6px",
+                                    border: "1px solid #e2e8f0",
+                                    borderRadius: "4px",
+                                    backgroundColor: "#ffffff",
+                                    cursor: "pointer",
+                                    fontSize: "10px",
+                                    fontFamily: "monospace",
+                                  }}
+                                  title={`Insert ${f.title}`}
+                                >
+                                  {f.id}
+                                </button>
+                              ))}
+                            </div>
+                          ))}
+                          <div
+                            style={{
+                              marginTop: "6px",
+                              fontSize: "11px",
+                              color:
+                                problems.length === 0 ? "#10b981" : "#dc2626",
+                            }}
+                          >
+                            {!formula.trim()
+                              ? null
+                              : problems.length === 0
+                              ? `✓ Valid formula${
+                                  previewMode
+                                    ? ` = ${JSON.stringify(
+                                        previewData[selectedField.id]
+                                      )}`
+                                    : ""
+                                }`
+                              : problems.map((problem, problemIndex) => (
+                                  <div key={problemIndex}>❌ {problem}</div>
+                                ))}
+                          </div>
+                        </div>
+                        <div
+                          style={{
+                            display: "grid",
+                            gridTemplateColumns: "1fr 1fr",
+                            gap: "8px",
+                          }}
+                        >
+                          <div>
+                            <label
+                              style={{
+                                display: "block",
+                                fontSize: "12px",
+                                fontWeight: "500",
+                                color: "#374151",
+                                marginBottom: "4px",
+                              }}
+                            >
+                              Decimal Places
+                            </label>
+                            <input
+                              type="number"
+                              value={selectedField.precision ?? ""}
+                              onChange={(e) =>
+                                updateField(
+                                  selectedField.id,
+                                  {
+                                    precision:
+                                      e.target.value === ""
+                                        ? undefined
+                                        : Number(e.target.value),
+                                  },
+                                  `precision:${selectedField.id}`
+                                )
+                              }
+                              min={0}
+                              step={1}
+                              placeholder="Any"
+                              style={{
+                                width: "100%",
+                                padding: "6px 8px",
+                                border: "1px solid #d1d5db",
+                                borderRadius: "4px",
+                                fontSize: "12px",
+                                boxSizing: "border-box",
+                              }}
+                            />
+                          </div>
+                          <div>
+                            <label
+                              style={{
+                                display: "block",
+                                fontSize: "12px",
+                                fontWeight: "500",
+                                color: "#374151",
+                                marginBottom: "4px",
+                              }}
+                            >
+                              Unit
+                            </label>
+                            <input
+                              type="text"
+                              value={selectedField.unit || ""}
+                              onChange={(e) =>
+                                updateField(
+                                  selectedField.id,
+                                  { unit: e.target.value || undefined },
+                                  `unit:${selectedField.id}`
+                                )
+                              }
+                              placeholder="e.g. $, h"
+                              style={{
+                                width: "100%",
+                                padding: "6px 8px",
+                                border: "1px solid #d1d5db",
+                                borderRadius: "4px",
+                                fontSize: "12px",
+                                boxSizing: "border-box",
+                              }}
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                {/* Group Settings */}
+                {selectedField.type === "group" && (
+                  <div
+                    style={{
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: "8px",
+                    }}
+                  >
+                    <label
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        cursor: "pointer",
+                      }}
+                    >
                       <input
-                        type="number"
-                        value={selectedField.maxFileSize || 10}
+                        type="checkbox"
+                        checked={selectedField.collapsible || false}
                         onChange={(e) =>
                           updateField(selectedField.id, {
-                            maxFileSize: parseInt(e.target.value),
+                            collapsible: e.target.checked,
+                            collapsed: e.target.checked
+                              ? selectedField.collapsed
+                              : undefined,
                           })
                         }
-                        min={1}
-                        max={100}
-                        style={{
-                          width: "100%",
-                          padding: "6px 8px",
-                          border: "1px solid #d1d5db",
-                          borderRadius: "4px",
-                          fontSize: "12px",
-                        }}
                       />
-                    </div>
-
-                    <div>
+                      <span style={{ fontSize: "12px", color: "#374151" }}>
+                        Collapsible
+                      </span>
+                    </label>
+                    {selectedField.collapsible && (
                       <label
                         style={{
                           display: "flex",
@@ -3570,25 +4915,163 @@ export const FormBuilder: FC = () => {
                       >
                         <input
                           type="checkbox"
-                          checked={selectedField.multiple}
+                          checked={selectedField.collapsed || false}
                           onChange={(e) =>
                             updateField(selectedField.id, {
-                              multiple: e.target.checked,
+                              collapsed: e.target.checked,
                             })
                           }
                         />
-                        <span
-                          style={{
-                            fontSize: "12px",
-                            fontWeight: "500",
-                            color: "#374151",
-                          }}
-                        >
-                          Allow Multiple Files
+                        <span style={{ fontSize: "12px", color: "#374151" }}>
+                          Start collapsed
                         </span>
                       </label>
+                    )}
+                    <div>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "12px",
+                          fontWeight: "500",
+                          color: "#374151",
+                          marginBottom: "4px",
+                        }}
+                      >
+                        Columns
+                      </label>
+                      <select
+                        value={selectedField.columns || 1}
+                        onChange={(e) =>
+                          updateField(selectedField.id, {
+                            columns: Number(e.target.value),
+                          })
+                        }
+                        style={{
+                          width: "100%",
+                          padding: "6px 8px",
+                          border: "1px solid #d1d5db",
+                          borderRadius: "4px",
+                          fontSize: "12px",
+                        }}
+                      >
+                        {[1, 2, 3, 4].map((count) => (
+                          <option key={count} value={count}>
+                            {count}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <label
+                      style={{
+                        fontSize: "12px",
+                        fontWeight: "500",
+                        color: "#374151",
+                      }}
+                    >
+                      Fields in this group
+                    </label>
+                    <ChildFieldsEditor
+                      fields={selectedField.fields || []}
+                      onChange={(fields) =>
+                        updateField(
+                          selectedField.id,
+                          { fields },
+                          `fields:${selectedField.id}`
+                        )
+                      }
+                      allowedTypes={GROUP_CHILD_TYPES}
+                      itemLabel="field"
+                      reservedIds={flattenFields(flowFields).map((f) => f.id)}
+                    />
+                  </div>
+                )}
+
+                {/* Repeater Settings */}
+                {selectedField.type === "repeater" && (
+                  <div
+                    style={{
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: "8px",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "1fr 1fr",
+                        gap: "8px",
+                      }}
+                    >
+                      {(
+                        [
+                          ["minRows", "Minimum Rows"],
+                          ["maxRows", "Maximum Rows"],
+                        ] as ["minRows" | "maxRows", string][]
+                      ).map(([key, label]) => (
+                        <div key={key}>
+                          <label
+                            style={{
+                              display: "block",
+                              fontSize: "12px",
+                              fontWeight: "500",
+                              color: "#374151",
+                              marginBottom: "4px",
+                            }}
+                          >
+                            {label}
+                          </label>
+                          <input
+                            type="number"
+                            value={selectedField[key] ?? ""}
+                            onChange={(e) =>
+                              updateField(
+                                selectedField.id,
+                                {
+                                  [key]:
+                                    e.target.value === ""
+                                      ? undefined
+                                      : Number(e.target.value),
+                                },
+                                `${key}:${selectedField.id}`
+                              )
+                            }
+                            min={0}
+                            step={1}
+                            placeholder="None"
+                            style={{
+                              width: "100%",
+                              padding: "6px 8px",
+                              border: "1px solid #d1d5db",
+                              borderRadius: "4px",
+                              fontSize: "12px",
+                              boxSizing: "border-box",
+                            }}
+                          />
+                        </div>
+                      ))}
                     </div>
-                  </>
+                    <label
+                      style={{
+                        fontSize: "12px",
+                        fontWeight: "500",
+                        color: "#374151",
+                      }}
+                    >
+                      Columns
+                    </label>
+                    <ChildFieldsEditor
+                      fields={selectedField.fields || []}
+                      onChange={(fields) =>
+                        updateField(
+                          selectedField.id,
+                          { fields },
+                          `fields:${selectedField.id}`
+                        )
+                      }
+                      allowedTypes={REPEATER_COLUMN_TYPES}
+                      itemLabel="column"
+                    />
+                  </div>
                 )}
 
                 {/* Field Actions */}
@@ -3642,6 +5125,531 @@ export const FormBuilder: FC = () => {
             </div>
           </div>
         )}
+
+        {/* RIGHT PANEL - Page Navigation (Edit Mode Only) */}
+        {canEdit && !selectedField && showNavigationEditor && currentStep && (
+          <div
+            style={{
+              minWidth: "320px",
+              backgroundColor: "#f8fafc",
+              borderLeft: "1px solid #e2e8f0",
+              display: "flex",
+              flexDirection: "column",
+              maxHeight: "100%",
+              flex: "0 0 25%",
+              padding: "16px",
+              overflow: "auto",
+            }}
+          >
+            <div
+              style={{
+                borderBottom: "1px solid #e2e8f0",
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "flex-start",
+              }}
+            >
+              <div>
+                <h3
+                  style={{
+                    margin: "0 0 8px 0",
+                    fontSize: "14px",
+                    fontWeight: "600",
+                    color: "#1f2937",
+                  }}
+                >
+                  Page Navigation
+                </h3>
+                <div
+                  style={{
+                    fontSize: "12px",
+                    color: "#6b7280",
+                    marginBottom: "8px",
+                  }}
+                >
+                  Route "{currentStep.name}" to different pages based on an
+                  answer, and check answers before leaving it
+                </div>
+              </div>
+              <button
+                onClick={() => setShowNavigationEditor(false)}
+                style={{
+                  color: "#6b7280",
+                  border: "none",
+                  padding: "4px",
+                  cursor: "pointer",
+                  fontSize: "12px",
+                }}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "16px",
+                marginTop: "16px",
+              }}
+            >
+              {/* Driving Field */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "12px",
+                    fontWeight: "500",
+                    color: "#374151",
+                    marginBottom: "4px",
+                  }}
+                >
+                  Branch On Field
+                </label>
+                <select
+                  value={currentStep.navigationRule?.fieldId || ""}
+                  onChange={(e) => {
+                    if (!e.target.value) {
+                      removeNavigationRule();
+                    } else if (
+                      e.target.value !== currentStep.navigationRule?.fieldId
+                    ) {
+                      updateNavigationRule({
+                        fieldId: e.target.value,
+                        conditions: [],
+                      });
+                    }
+                  }}
+                  style={{
+                    width: "100%",
+                    padding: "6px 8px",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "4px",
+                    fontSize: "12px",
+                  }}
+                >
+                  <option value="">No branching (always continue)</option>
+                  {currentStep.navigationRule?.fieldId &&
+                    !navigationSourceFields.some(
+                      (f) => f.id === currentStep.navigationRule?.fieldId
+                    ) && (
+                      <option value={currentStep.navigationRule.fieldId}>
+                        {currentStep.navigationRule.fieldId} (missing)
+                      </option>
+                    )}
+                  {navigationSourceGroups.map((group, index) => (
+                    <optgroup key={index} label={group.label}>
+                      {group.fields.map((navField) => (
+                        <option key={navField.id} value={navField.id}>
+                          {navField.title}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                {navigationSourceFields.length === 0 && (
+                  <div
+                    style={{
+                      fontSize: "11px",
+                      color: "#6b7280",
+                      fontStyle: "italic",
+                      marginTop: "4px",
+                    }}
+                  >
+                    Add a dropdown, radio or checkbox field to branch on its
+                    answer
+                  </div>
+                )}
+              </div>
+
+              {currentStep.navigationRule &&
+                (() => {
+                  const rule = currentStep.navigationRule;
+                  const drivingField = flattenFields(flowFields).find(
+                    (f) => f.id === rule.fieldId
+                  );
+                  const options = drivingField?.options || [];
+                  const staleConditions = rule.conditions.filter(
+                    (cond) => !options.includes(cond.value)
+                  );
+                  const issues = getNavigationRuleIssues(rule);
+
+                  // `current` keeps a target whose page was removed visible
+                  const renderTargetOptions = (current: string) => (
+                    <>
+                      {current &&
+                        !isNavigationKeyword(current) &&
+                        !parsedSteps.some((step) => step.id === current) && (
+                          <option value={current}>
+                            {describeNavigationTarget(parsedSteps, current)}
+                          </option>
+                        )}
+                      {NAVIGATION_KEYWORDS.map((keyword) => (
+                        <option key={keyword.value} value={keyword.value}>
+                          {keyword.label}
+                        </option>
+                      ))}
+                      <optgroup label="Go to page">
+                        {parsedSteps.map((step, index) => (
+                          <option key={step.id} value={step.id}>
+                            {index + 1}. {step.name}
+                            {step.id === currentStep.id ? " (this page)" : ""}
+                          </option>
+                        ))}
+                      </optgroup>
+                    </>
+                  );
+
+                  const targetSelectStyle = {
+                    flex: 1,
+                    minWidth: 0,
+                    padding: "4px 6px",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "4px",
+                    fontSize: "12px",
+                  };
+
+                  return (
+                    <>
+                      {/* Option Targets */}
+                      <div>
+                        <label
+                          style={{
+                            display: "block",
+                            fontSize: "12px",
+                            fontWeight: "500",
+                            color: "#374151",
+                            marginBottom: "4px",
+                          }}
+                        >
+                          When The Answer Is
+                        </label>
+                        {drivingField?.type === "checkbox" && (
+                          <div
+                            style={{
+                              fontSize: "11px",
+                              color: "#6b7280",
+                              fontStyle: "italic",
+                              marginBottom: "6px",
+                            }}
+                          >
+                            The first checked option in this list wins
+                          </div>
+                        )}
+                        <div
+                          style={{
+                            display: "flex",
+                            flexDirection: "column",
+                            gap: "6px",
+                          }}
+                        >
+                          {options.map((option) => {
+                            const target =
+                              rule.conditions.find(
+                                (cond) => cond.value === option
+                              )?.nextStepId || "";
+                            return (
+                              <div
+                                key={option}
+                                style={{
+                                  display: "flex",
+                                  alignItems: "center",
+                                  gap: "8px",
+                                }}
+                              >
+                                <span
+                                  style={{
+                                    flex: "0 0 40%",
+                                    fontSize: "12px",
+                                    color: "#374151",
+                                    overflow: "hidden",
+                                    textOverflow: "ellipsis",
+                                    whiteSpace: "nowrap",
+                                  }}
+                                  title={option}
+                                >
+                                  {option}
+                                </span>
+                                <select
+                                  value={target}
+                                  onChange={(e) =>
+                                    setNavigationTarget(option, e.target.value)
+                                  }
+                                  style={targetSelectStyle}
+                                >
+                                  <option value="">Use default</option>
+                                  {renderTargetOptions(target)}
+                                </select>
+                              </div>
+                            );
+                          })}
+                          {staleConditions.map((cond) => (
+                            <div
+                              key={cond.value}
+                              style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: "8px",
+                                fontSize: "12px",
+                                color: "#dc2626",
+                              }}
+                            >
+                              <span style={{ flex: 1 }}>
+                                "{cond.value}" →{" "}
+                                {describeNavigationTarget(
+                                  parsedSteps,
+                                  cond.nextStepId
+                                )}
+                              </span>
+                              <button
+                                onClick={() =>
+                                  setNavigationTarget(cond.value, "")
+                                }
+                                style={{
+                                  border: "1px solid #ef4444",
+                                  borderRadius: "4px",
+                                  color: "#dc2626",
+                                  padding: "2px 6px",
+                                  cursor: "pointer",
+                                  fontSize: "11px",
+                                }}
+                                title="Remove stale condition"
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Default Target */}
+                      <div>
+                        <label
+                          style={{
+                            display: "block",
+                            fontSize: "12px",
+                            fontWeight: "500",
+                            color: "#374151",
+                            marginBottom: "4px",
+                          }}
+                        >
+                          Otherwise
+                        </label>
+                        <select
+                          value={rule.defaultStepId || "continue"}
+                          onChange={(e) =>
+                            updateNavigationRule({
+                              defaultStepId: e.target.value,
+                            })
+                          }
+                          style={{ ...targetSelectStyle, width: "100%" }}
+                        >
+                          {renderTargetOptions(
+                            rule.defaultStepId || "continue"
+                          )}
+                        </select>
+                      </div>
+
+                      {/* Rule Issues */}
+                      {issues.length > 0 && (
+                        <div
+                          style={{
+                            padding: "8px",
+                            border: "1px solid #fca5a5",
+                            borderRadius: "6px",
+                            backgroundColor: "#fef2f2",
+                            display: "flex",
+                            flexDirection: "column",
+                            gap: "4px",
+                          }}
+                        >
+                          {issues.map((issue, issueIndex) => (
+                            <div
+                              key={issueIndex}
+                              style={{
+                                fontSize: "11px",
+                                color:
+                                  issue.level === "error"
+                                    ? "#dc2626"
+                                    : "#a16207",
+                              }}
+                            >
+                              {issue.level === "error" ? "❌" : "⚠️"}{" "}
+                              {issue.message}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Live Expression */}
+                      <div>
+                        <label
+                          style={{
+                            display: "block",
+                            fontSize: "12px",
+                            fontWeight: "500",
+                            color: "#374151",
+                            marginBottom: "4px",
+                          }}
+                        >
+                          Generated Expression
+                        </label>
+                        <pre
+                          style={{
+                            margin: 0,
+                            padding: "8px",
+                            border: "1px solid #e2e8f0",
+                            borderRadius: "4px",
+                            backgroundColor: "#ffffff",
+                            fontSize: "11px",
+                            whiteSpace: "pre-wrap",
+                            wordBreak: "break-all",
+                            color: "#0369a1",
+                          }}
+                        >
+                          {convertToExpression(rule, currentStep, flowFields)}
+                        </pre>
+                      </div>
+
+                      <button
+                        onClick={removeNavigationRule}
+                        style={{
+                          padding: "8px 12px",
+                          backgroundColor: "#ef4444",
+                          border: "none",
+                          borderRadius: "6px",
+                          cursor: "pointer",
+                          fontSize: "12px",
+                          fontWeight: "500",
+                        }}
+                      >
+                        🗑️ Remove Branching
+                      </button>
+                    </>
+                  );
+                })()}
+
+              {/* Page Check */}
+              {(() => {
+                const expression = currentStep.summaryCheckExpression ?? "";
+                const check = checkExpression(
+                  expression || "true",
+                  currentStep.fields
+                );
+
+                return (
+                  <div
+                    style={{
+                      borderTop: "1px solid #e2e8f0",
+                      paddingTop: "16px",
+                    }}
+                  >
+                    <label
+                      style={{
+                        display: "block",
+                        fontSize: "12px",
+                        fontWeight: "500",
+                        color: "#374151",
+                        marginBottom: "4px",
+                      }}
+                    >
+                      Page Check
+                    </label>
+                    <div
+                      style={{
+                        fontSize: "11px",
+                        color: "#6b7280",
+                        marginBottom: "6px",
+                      }}
+                    >
+                      Must be true before the page can be submitted. Read
+                      answers with formData.fieldId
+                    </div>
+                    <textarea
+                      value={expression}
+                      onChange={(e) =>
+                        updateStepProperty(
+                          "summaryCheckExpression",
+                          e.target.value
+                        )
+                      }
+                      placeholder="true"
+                      rows={3}
+                      spellCheck={false}
+                      style={{
+                        width: "100%",
+                        padding: "6px 8px",
+                        border: `1px solid ${
+                          check.valid ? "#d1d5db" : "#fca5a5"
+                        }`,
+                        borderRadius: "4px",
+                        fontSize: "12px",
+                        fontFamily: "monospace",
+                        resize: "vertical",
+                        boxSizing: "border-box",
+                      }}
+                    />
+                    <div
+                      style={{
+                        display: "flex",
+                        flexWrap: "wrap",
+                        gap: "4px",
+                        marginTop: "4px",
+                      }}
+                    >
+                      {flattenFields(currentStep.fields)
+                        .filter((f) => getFieldAnswerType(f))
+                        .map((f) => (
+                          <button
+                            key={f.id}
+                            onClick={() =>
+                              updateStepProperty(
+                                "summaryCheckExpression",
+                                `${
+                                  expression && expression !== "true"
+                                    ? `${expression} `
+                                    : ""
+                                }formData.${f.id}`
+                              )
+                            }
+                            style={{
+                              padding: "2px 6px",
+                              border: "1px solid #e2e8f0",
+                              borderRadius: "4px",
+                              backgroundColor: "#ffffff",
+                              cursor: "pointer",
+                              fontSize: "10px",
+                              fontFamily: "monospace",
+                            }}
+                            title={`Insert ${f.title}`}
+                          >
+                            {f.id}
+                          </button>
+                        ))}
+                    </div>
+                    <div
+                      style={{
+                        marginTop: "6px",
+                        fontSize: "11px",
+                        color: check.valid ? "#10b981" : "#dc2626",
+                      }}
+                    >
+                      {check.valid
+                        ? `✓ Valid ${
+                            check.resultType === "any"
+                              ? ""
+                              : `${check.resultType} `
+                          }expression`
+                        : check.errors.map((error, errorIndex) => (
+                            <div key={errorIndex}>❌ {error}</div>
+                          ))}
+                    </div>
+                  </div>
+                );
+              })()}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* JSON Output Modal */}
@@ -3728,3 +5736,4 @@ export const FormBuilder: FC = () => {
 
 // Export the main component
 export default FormBuilder;
+export { FormRunner, type FormRunnerProps } from "./FormRunner";
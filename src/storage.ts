@@ -0,0 +1,139 @@
+import type { SavedFlow } from "./flow-core";
+
+/**
+ * Persistence backend for saved flows. FormBuilder only talks to this
+ * interface, so hosts can swap in their own backend (REST API, Retool
+ * query, ...) by passing an implementation through the `storage` prop.
+ */
+export interface FlowStorage {
+  listFlows(): Promise<SavedFlow[]>;
+  getFlow(id: string): Promise<SavedFlow | null>;
+  saveFlow(flow: SavedFlow): Promise<void>;
+  deleteFlow(id: string): Promise<void>;
+}
+
+const DEFAULT_STORAGE_KEY = "formBuilder_savedFlows";
+const DEFAULT_DATABASE_NAME = "formBuilder";
+const FLOW_STORE_NAME = "savedFlows";
+
+const byCreatedAt = (a: SavedFlow, b: SavedFlow) =>
+  a.created_at.localeCompare(b.created_at);
+
+// localStorage implementation - all flows live under a single JSON key
+export const createLocalStorageFlowStorage = (
+  storageKey: string = DEFAULT_STORAGE_KEY
+): FlowStorage => {
+  const readFlows = (): SavedFlow[] => {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return [];
+
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn(`Ignoring corrupt flow storage "${storageKey}":`, error);
+      return [];
+    }
+  };
+
+  const writeFlows = (flows: SavedFlow[]) => {
+    localStorage.setItem(storageKey, JSON.stringify(flows));
+  };
+
+  return {
+    async listFlows() {
+      return readFlows().sort(byCreatedAt);
+    },
+
+    async getFlow(id) {
+      return readFlows().find((f) => f.id === id) || null;
+    },
+
+    async saveFlow(flow) {
+      const flows = readFlows();
+      const existingIndex = flows.findIndex((f) => f.id === flow.id);
+
+      if (existingIndex >= 0) {
+        flows[existingIndex] = flow;
+      } else {
+        flows.push(flow);
+      }
+
+      writeFlows(flows);
+    },
+
+    async deleteFlow(id) {
+      writeFlows(readFlows().filter((f) => f.id !== id));
+    },
+  };
+};
+
+// IndexedDB implementation - one record per flow, keyed by flow id
+export const createIndexedDBFlowStorage = (
+  databaseName: string = DEFAULT_DATABASE_NAME
+): FlowStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(FLOW_STORE_NAME, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          database = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return database;
+  };
+
+  const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(FLOW_STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(FLOW_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    async listFlows() {
+      const flows = await runRequest<SavedFlow[]>("readonly", (store) =>
+        store.getAll()
+      );
+      return flows.sort(byCreatedAt);
+    },
+
+    async getFlow(id) {
+      const flow = await runRequest<SavedFlow | undefined>(
+        "readonly",
+        (store) => store.get(id)
+      );
+      return flow || null;
+    },
+
+    async saveFlow(flow) {
+      await runRequest("readwrite", (store) => store.put(flow));
+    },
+
+    async deleteFlow(id) {
+      await runRequest("readwrite", (store) => store.delete(id));
+    },
+  };
+};
+
+// Default backend used when the host does not provide one
+export const localFlowStorage: FlowStorage = createLocalStorageFlowStorage();